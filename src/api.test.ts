@@ -1,9 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { randomUUID } from 'crypto'
 
-// Mock the sendSingleLog function - must be hoisted
-vi.mock('./beacon.js', () => ({
-  sendSingleLog: vi.fn(),
+// Mock the exportLog function - must be hoisted
+vi.mock('./exporter.js', () => ({
+  exportLog: vi.fn(),
+  shutdown: vi.fn().mockResolvedValue(true),
 }))
 
 // Mock debug logging - must be hoisted
@@ -18,19 +19,25 @@ import {
   logError,
   logDebug,
   logFatal,
+  logException,
   logDbOperation,
   startHttpTrace,
   endHttpTrace,
   runInSpan,
+  startSpan,
+  createLogger,
+  metrics,
+  shutdown,
 } from './api.js'
-import { sendSingleLog } from './beacon.js'
+import { DEFAULT_CONFIG } from './config.js'
+import { exportLog, shutdown as shutdownExporter } from './exporter.js'
 
 // Get the mocked function
-const mockSendSingleLog = vi.mocked(sendSingleLog)
+const mockExportLog = vi.mocked(exportLog)
 
 describe('API Tests', () => {
   beforeEach(() => {
-    mockSendSingleLog.mockClear()
+    mockExportLog.mockClear()
   })
 
   afterEach(() => {
@@ -44,8 +51,8 @@ describe('API Tests', () => {
         () => {
           logInfo('Test info message')
 
-          expect(mockSendSingleLog).toHaveBeenCalledTimes(1)
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledTimes(1)
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'log',
               severity: 'info',
@@ -68,7 +75,7 @@ describe('API Tests', () => {
         () => {
           logWarn('Test warning message')
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'log',
               severity: 'warn',
@@ -88,7 +95,7 @@ describe('API Tests', () => {
         () => {
           logError('Test error message')
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'log',
               severity: 'error',
@@ -106,7 +113,7 @@ describe('API Tests', () => {
         () => {
           logDebug('Test debug message')
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'log',
               severity: 'debug',
@@ -124,7 +131,7 @@ describe('API Tests', () => {
         () => {
           logFatal('Test fatal message')
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'log',
               severity: 'fatal',
@@ -136,13 +143,84 @@ describe('API Tests', () => {
       )
     })
 
+    it('should log exceptions with error details', () => {
+      logException(new RangeError('Out of range'), { userId: 7 })
+
+      expect(mockExportLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          severity: 'error',
+          message: 'RangeError: Out of range',
+          error: expect.objectContaining({
+            type: 'RangeError',
+            fingerprint: expect.any(String),
+          }),
+          trace_info: { custom_fields: { userId: 7 } },
+        })
+      )
+    })
+
+    it('should capture the error option of the log functions', () => {
+      logWarn('Retrying payment', { error: new Error('timeout'), attempt: 2 })
+
+      const event = mockExportLog.mock.calls[0]?.[0]
+      expect(event?.error?.message).toBe('timeout')
+      expect(event?.trace_info?.custom_fields).toEqual({ attempt: 2 })
+    })
+
+    it('should merge logger bindings into custom_fields', async () => {
+      const logger = createLogger({ tenantId: 'acme', jobName: 'sync' })
+      const child = logger.child({ userId: 7, jobName: 'resync' })
+
+      await executionContext.run(
+        { traceId: 'test-trace', spanId: 'test-span', logCount: 0 },
+        () => {
+          child.info('Job started', { attempt: 1 })
+          logger.db('SELECT 1', 2)
+        }
+      )
+
+      expect(mockExportLog.mock.calls[0]?.[0]).toMatchObject({
+        message: 'Job started',
+        trace_id: 'test-trace',
+        span_id: 'test-span',
+        trace_info: {
+          custom_fields: {
+            tenantId: 'acme',
+            jobName: 'resync',
+            userId: 7,
+            attempt: 1,
+          },
+        },
+      })
+      expect(mockExportLog.mock.calls[1]?.[0]?.db_info?.custom_fields).toEqual({
+        tenantId: 'acme',
+        jobName: 'sync',
+      })
+    })
+
+    it('should send extra attributes as custom_fields', () => {
+      logWarn('Payment declined', {
+        orderId: 42n,
+        reasons: new Set(['limit']),
+      })
+
+      expect(mockExportLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Payment declined',
+          trace_info: {
+            custom_fields: { orderId: '42', reasons: ['limit'] },
+          },
+        })
+      )
+    })
+
     it('should skip logging when _beacon_skip is true', async () => {
       await executionContext.run(
         { traceId: 'test-trace', spanId: 'test-span', logCount: 0 },
         () => {
           logInfo('Should be skipped', { _beacon_skip: true })
 
-          expect(mockSendSingleLog).not.toHaveBeenCalled()
+          expect(mockExportLog).not.toHaveBeenCalled()
           expect(executionContext.getStore()?.logCount).toBe(0)
         }
       )
@@ -161,16 +239,16 @@ describe('API Tests', () => {
             rowsExamined: 100,
           })
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'db',
               severity: 'info',
               message:
-                'Database query completed: SELECT * FROM users WHERE id = 1',
+                'Database query completed: SELECT * FROM users WHERE id = ?',
               trace_id: 'test-trace',
               order_in_trace: 3, // Only incremented once in createLogEvent
               trace_info: expect.objectContaining({
-                db_query: 'SELECT * FROM users WHERE id = 1',
+                db_query: 'SELECT * FROM users WHERE id = ?',
                 db_duration_ms: 26,
                 db_rows_affected: 1,
                 db_query_type: 'SELECT',
@@ -179,7 +257,7 @@ describe('API Tests', () => {
                 db_rows_examined: 100,
               }),
               db_info: expect.objectContaining({
-                db_query: 'SELECT * FROM users WHERE id = 1',
+                db_query: 'SELECT * FROM users WHERE id = ?',
                 db_duration_ms: 26,
                 db_rows_affected: 1,
                 db_query_type: 'SELECT',
@@ -206,12 +284,12 @@ describe('API Tests', () => {
             errorMessage: 'Duplicate entry for key email',
           })
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'db',
               severity: 'error',
               message:
-                'Database query failed: UPDATE users SET email = ? WHERE id = 1',
+                'Database query failed: UPDATE users SET email = ? WHERE id = ?',
               order_in_trace: 1, // Only incremented once in createLogEvent
               trace_info: expect.objectContaining({
                 db_error_code: 'ER_DUP_ENTRY',
@@ -236,7 +314,7 @@ describe('API Tests', () => {
 
           logDbOperation(longQuery, 50)
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               message:
                 'Database query completed: SELECT * FROM users WHERE name LIKE "%very-long-se...',
@@ -260,7 +338,7 @@ describe('API Tests', () => {
             remoteIP: '192.168.1.1',
           })
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'http',
               severity: 'info',
@@ -291,7 +369,7 @@ describe('API Tests', () => {
             durationMs: 150.75,
           })
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               event_type: 'http',
               severity: 'info',
@@ -320,7 +398,7 @@ describe('API Tests', () => {
             remoteIP: 'invalid-ip',
           })
 
-          expect(mockSendSingleLog).toHaveBeenCalledWith(
+          expect(mockExportLog).toHaveBeenCalledWith(
             expect.objectContaining({
               trace_info: expect.objectContaining({
                 http_remote_ip: undefined, // Should be undefined for invalid IP
@@ -355,6 +433,26 @@ describe('API Tests', () => {
       )
     })
 
+    it('should not send logs of traces dropped by head sampling', async () => {
+      await executionContext.run(
+        {
+          traceId: 'test-trace',
+          spanId: 'test-span',
+          logCount: 0,
+          sampled: false,
+        },
+        () => {
+          runInSpan(() => {
+            logInfo('Not sampled')
+            expect(executionContext.getStore()?.sampled).toBe(false)
+          })
+
+          expect(mockExportLog).not.toHaveBeenCalled()
+          expect(executionContext.getStore()?.logCount).toBe(1)
+        }
+      )
+    })
+
     it('should create new trace when no parent context', async () => {
       const result = await runInSpan(async () => {
         const store = executionContext.getStore()
@@ -370,6 +468,138 @@ describe('API Tests', () => {
     })
   })
 
+  describe('Named spans', () => {
+    it('should emit start and end events with duration and attributes', async () => {
+      const result = await runInSpan(
+        'load-user',
+        async () => {
+          logInfo('Loading')
+          return 'user'
+        },
+        { attributes: { userId: 7 } }
+      )
+
+      expect(result).toBe('user')
+      const events = mockExportLog.mock.calls.map((call) => call[0])
+      expect(events.map((event) => event.message)).toEqual([
+        'load-user - span started',
+        'Loading',
+        'load-user - span completed',
+      ])
+      expect(events[2]).toMatchObject({
+        event_type: 'span',
+        span_id: events[0]?.span_id,
+        trace_info: {
+          span_name: 'load-user',
+          span_status: 'ok',
+          span_finished: true,
+          custom_fields: { userId: 7 },
+        },
+      })
+      expect(events[2]?.trace_info?.span_duration_ms).toBeGreaterThanOrEqual(0)
+    })
+
+    it('should mark spans failed when fn rejects or throws', async () => {
+      await expect(
+        runInSpan('async-work', async () => {
+          throw new Error('rejected')
+        })
+      ).rejects.toThrow('rejected')
+      expect(() =>
+        runInSpan('sync-work', () => {
+          throw new TypeError('thrown')
+        })
+      ).toThrow('thrown')
+
+      const ends = mockExportLog.mock.calls
+        .map((call) => call[0])
+        .filter((event) => event.trace_info?.span_finished)
+      expect(ends).toMatchObject([
+        {
+          severity: 'error',
+          message: 'async-work - span failed',
+          trace_info: { span_status: 'error' },
+          error: { type: 'Error', message: 'rejected' },
+        },
+        {
+          message: 'sync-work - span failed',
+          error: { type: 'TypeError', message: 'thrown' },
+        },
+      ])
+    })
+
+    it('should sync logCount to the parent after async work settles', async () => {
+      await executionContext.run(
+        { traceId: 'test-trace', spanId: 'test-span', logCount: 0 },
+        async () => {
+          const span = runInSpan(async () => {
+            await new Promise((resolve) => setTimeout(resolve, 1))
+            logInfo('After await')
+          })
+          expect(executionContext.getStore()?.logCount).toBe(0)
+
+          await span
+          expect(executionContext.getStore()?.logCount).toBe(1)
+        }
+      )
+    })
+  })
+
+  describe('Manual spans', () => {
+    it('should emit events until end() and run code within the span', () => {
+      const span = startSpan('consume', { attributes: { queue: 'jobs' } })
+      span.setAttribute('messages', 2).addEvent('batch received', { size: 2 })
+      span.runWithin(() => logInfo('Handling batch'))
+      span.setStatus('error', 'partial failure')
+      span.end()
+      span.end()
+
+      const events = mockExportLog.mock.calls.map((call) => call[0])
+      expect(events.map((event) => event.message)).toEqual([
+        'consume - span started',
+        'consume - batch received',
+        'Handling batch',
+        'consume - span failed',
+      ])
+      expect(new Set(events.map((event) => event.span_id))).toEqual(
+        new Set([span.context.spanId])
+      )
+      expect(events[3]).toMatchObject({
+        trace_info: {
+          span_status: 'error',
+          span_status_message: 'partial failure',
+          custom_fields: { queue: 'jobs', messages: 2 },
+        },
+      })
+    })
+
+    it('should use explicit parents and record links', () => {
+      const parent = startSpan('poll')
+      const link = { traceId: 'other-trace', spanId: 'other-span' }
+      const child = startSpan('process', { parent, links: [link] })
+      child.recordException(new Error('bad message'))
+      child.end()
+      parent.end()
+
+      const started = mockExportLog.mock.calls[1]?.[0]
+      expect(started).toMatchObject({
+        trace_id: parent.context.traceId,
+        parent_span_id: parent.context.spanId,
+        trace_info: {
+          span_links: [{ trace_id: 'other-trace', span_id: 'other-span' }],
+        },
+      })
+      expect(mockExportLog.mock.calls[2]?.[0]).toMatchObject({
+        span_id: child.context.spanId,
+        error: { message: 'bad message' },
+      })
+      // The child continues the parent's count and hands it back on end
+      expect(
+        mockExportLog.mock.calls.map(([event]) => event.order_in_trace)
+      ).toEqual([1, 2, 3, 4, 5])
+    })
+  })
+
   describe('Realistic HTTP Request Scenario', () => {
     it('should handle complete HTTP request lifecycle with correct order_in_trace and log_count', async () => {
       const traceId = randomUUID()
@@ -416,10 +646,10 @@ describe('API Tests', () => {
         })
 
         // Verify all calls were made in correct order
-        expect(mockSendSingleLog).toHaveBeenCalledTimes(7)
+        expect(mockExportLog).toHaveBeenCalledTimes(7)
 
         // Check each call's order_in_trace
-        const calls = mockSendSingleLog.mock.calls
+        const calls = mockExportLog.mock.calls
 
         // Call 1: startHttpTrace
         expect(calls[0][0]).toMatchObject({
@@ -543,9 +773,9 @@ describe('API Tests', () => {
           durationMs: 85.2,
         })
 
-        expect(mockSendSingleLog).toHaveBeenCalledTimes(5)
+        expect(mockExportLog).toHaveBeenCalledTimes(5)
 
-        const calls = mockSendSingleLog.mock.calls
+        const calls = mockExportLog.mock.calls
 
         // Verify the error database operation
         expect(calls[2][0]).toMatchObject({
@@ -576,4 +806,71 @@ describe('API Tests', () => {
       })
     })
   })
+
+  describe('Shutdown', () => {
+    it('should send pending duplicate summaries before the exporter drains', async () => {
+      const { dedupeWindowMs } = DEFAULT_CONFIG
+      DEFAULT_CONFIG.dedupeWindowMs = 60000
+      try {
+        logWarn('dup')
+        logWarn('dup')
+        logWarn('dup')
+        expect(mockExportLog).toHaveBeenCalledTimes(1)
+
+        await shutdown()
+
+        const logs = mockExportLog.mock.calls
+          .map(([event]) => event)
+          .filter((event) => event.event_type === 'log')
+        expect(logs.map((event) => event.message)).toEqual([
+          'dup',
+          'dup (repeated 2 times)',
+        ])
+        // The summary is emitted before the exporter is asked to drain
+        expect(
+          vi.mocked(shutdownExporter).mock.invocationCallOrder[0]
+        ).toBeGreaterThan(Math.max(...mockExportLog.mock.invocationCallOrder))
+      } finally {
+        DEFAULT_CONFIG.dedupeWindowMs = dedupeWindowMs
+      }
+    })
+
+    it('should send the last metrics interval of the default API', async () => {
+      metrics.counter('jobs.done').add(3)
+
+      await shutdown()
+
+      expect(mockExportLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event_type: 'metric',
+          metric_info: expect.objectContaining({
+            metric_name: 'jobs.done',
+            metric_value: 3,
+          }),
+        })
+      )
+    })
+
+    it('should keep flushing metrics periodically after a shutdown', async () => {
+      await shutdown()
+      vi.useFakeTimers()
+      try {
+        metrics.counter('jobs.after').add(2)
+        await vi.advanceTimersByTimeAsync(DEFAULT_CONFIG.metricsInterval)
+
+        expect(mockExportLog).toHaveBeenCalledWith(
+          expect.objectContaining({
+            event_type: 'metric',
+            metric_info: expect.objectContaining({
+              metric_name: 'jobs.after',
+              metric_value: 2,
+            }),
+          })
+        )
+      } finally {
+        await shutdown()
+        vi.useRealTimers()
+      }
+    })
+  })
 })
@@ -1,20 +1,76 @@
 import { randomUUID } from 'crypto'
-import { LogEvent, sendSingleLog } from './beacon.js'
+import { serializeAttributes } from './attributes.js'
+import { LogEvent } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { createDbActivity, detectDbIssues, recordQuery } from './db-activity.js'
 import { debugLogging } from './debug.js'
+import { captureError } from './errors.js'
 import { executionContext } from './execution-context.js'
+import { exportLog, shutdown as shutdownExporter } from './exporter.js'
+import { createMetrics } from './metrics.js'
+import { createLogLimiter } from './rate-limit.js'
+import { shouldSampleTrace, type SamplingContext } from './sampling.js'
+import { analyzeSql } from './sql.js'
 import { isValidHttpStatus, isValidIP } from './validator.js'
 
-const sendLog = async (logEvent: LogEvent): Promise<void> => {
-  if (debugLogging) {
-    console.log('🚀 Sending log to Beacon Server:', {
-      event_type: logEvent.event_type,
-      message: logEvent.message,
-      trace_id: logEvent.trace_id,
-      span_id: logEvent.span_id,
-      timestamp: new Date().toISOString(),
-    })
-  }
-  await sendSingleLog(logEvent)
+// A set of log functions with fields bound to every event they emit
+export type Logger = {
+  info: (message: string, extra?: Record<string, unknown>) => void
+  warn: (message: string, extra?: Record<string, unknown>) => void
+  error: (message: string, extra?: Record<string, unknown>) => void
+  debug: (message: string, extra?: Record<string, unknown>) => void
+  fatal: (message: string, extra?: Record<string, unknown>) => void
+  exception: (err: unknown, extra?: Record<string, unknown>) => void
+  db: (
+    query: string,
+    durationMs: number,
+    rowsAffected?: number,
+    metadata?: DbOperationMetadata,
+    extra?: Record<string, unknown>
+  ) => void
+  child: (bindings: Record<string, unknown>) => Logger
+}
+
+export type SpanOptions = {
+  attributes?: Record<string, unknown> // Sent as custom_fields of the span events
+  sampling?: Omit<SamplingContext, 'traceId'> // Used when the span starts a trace
+}
+
+export type SpanStatus = 'ok' | 'error'
+
+// Identifies a span across process and callback boundaries
+export type SpanContext = {
+  traceId: string
+  spanId: string
+  sampled?: boolean
+  traceState?: string // W3C tracestate of the caller, forwarded by inject
+}
+
+// Handle of a span started with startSpan, ended explicitly with end()
+export type Span = {
+  context: SpanContext
+  setAttribute: (key: string, value: unknown) => Span
+  addEvent: (name: string, attributes?: Record<string, unknown>) => Span
+  recordException: (err: unknown, extra?: Record<string, unknown>) => Span
+  setStatus: (status: SpanStatus, message?: string) => Span
+  end: () => void
+  runWithin: <T>(fn: () => T) => T // Runs fn with this span as the active one
+}
+
+export type StartSpanOptions = SpanOptions & {
+  parent?: Span | SpanContext // Defaults to the active span
+  links?: SpanContext[]
+}
+
+export type DbOperationMetadata = {
+  queryType?: string
+  tableName?: string
+  database?: string
+  rowsExamined?: number
+  errorCode?: string
+  errorMessage?: string
+  connectionId?: string
+  transactionId?: string
 }
 
 const createLogEvent = (
@@ -42,207 +98,659 @@ const createLogEvent = (
   }
 }
 
-export const logInfo = (
-  message: string,
-  extra: Record<string, unknown> = {}
-): void => {
-  const { _beacon_skip } = extra
-  if (_beacon_skip === true) return
-  sendLog(createLogEvent('log', 'info', message))
-}
+// Builds the logging functions on top of an emit function (the exporter).
+// Every Beacon client gets its own set, with its own limiter and sampling config.
+export const createLogApi = (
+  emit: (logEvent: LogEvent) => void,
+  config: BeaconConfig = DEFAULT_CONFIG
+) => {
+  const logLimiter = createLogLimiter(emit, config)
+  // Metric events bypass sampling and rate limits, they summarize everything
+  const metrics = createMetrics(emit, config)
+  const dbOperations = metrics.counter('db.client.operations')
+  const dbErrors = metrics.counter('db.client.errors')
+  const dbDuration = metrics.histogram('db.client.duration', { unit: 'ms' })
 
-export const logWarn = (
-  message: string,
-  extra: Record<string, unknown> = {}
-): void => {
-  const { _beacon_skip } = extra
-  if (_beacon_skip === true) return
-  sendLog(createLogEvent('log', 'warn', message))
-}
+  // Traces dropped by head sampling still count logs, they are just not sent
+  const sampledOut = (): boolean =>
+    executionContext.getStore()?.sampled === false
 
-export const logError = (
-  message: string,
-  extra: Record<string, unknown> = {}
-): void => {
-  const { _beacon_skip } = extra
-  if (_beacon_skip === true) return
-  sendLog(createLogEvent('log', 'error', message))
-}
+  const deliver = (logEvent: LogEvent): void => {
+    if (debugLogging) {
+      console.log('🚀 Sending log to Beacon Server:', {
+        event_type: logEvent.event_type,
+        message: logEvent.message,
+        trace_id: logEvent.trace_id,
+        span_id: logEvent.span_id,
+        timestamp: new Date().toISOString(),
+      })
+    }
+    emit(logEvent)
+  }
 
-export const logDebug = (
-  message: string,
-  extra: Record<string, unknown> = {}
-): void => {
-  const { _beacon_skip } = extra
-  if (_beacon_skip === true) return
-  sendLog(createLogEvent('log', 'debug', message))
-}
+  const sendLog = (logEvent: LogEvent): void => {
+    if (sampledOut()) {
+      return
+    }
+    // Duplicate and rate-limited logs are counted by the limiter, not sent
+    if (!logLimiter.allow(logEvent)) {
+      return
+    }
+    deliver(logEvent)
+  }
 
-export const logFatal = (
-  message: string,
-  extra: Record<string, unknown> = {}
-): void => {
-  const { _beacon_skip } = extra
-  if (_beacon_skip === true) return
-  sendLog(createLogEvent('log', 'fatal', message))
-}
+  // Ships the structured attributes of a log call as custom_fields.
+  // An Error passed as `error` is captured into LogEvent.error instead.
+  const withAttributes = (
+    logEvent: LogEvent,
+    extra: Record<string, unknown>
+  ): LogEvent => {
+    const { error, ...attributes } = extra
+    const event: LogEvent =
+      error instanceof Error
+        ? { ...logEvent, error: captureError(error, config) }
+        : logEvent
+    const custom_fields = serializeAttributes(
+      error instanceof Error ? attributes : extra,
+      config
+    )
+    return custom_fields
+      ? { ...event, trace_info: { ...event.trace_info, custom_fields } }
+      : event
+  }
 
-export const logDbOperation = (
-  query: string,
-  durationMs: number,
-  rowsAffected?: number,
-  metadata?: {
-    queryType?: string
-    tableName?: string
-    database?: string
-    rowsExamined?: number
-    errorCode?: string
-    errorMessage?: string
-    connectionId?: string
-    transactionId?: string
-  },
-  extra: Record<string, unknown> = {}
-): void => {
-  const { _beacon_skip } = extra
-  if (_beacon_skip === true) return
-
-  if (debugLogging) {
-    console.log('📊 logDbOperation called:', {
-      query: query.substring(0, 50) + (query.length > 50 ? '...' : ''),
-      durationMs,
-      metadata,
-      trace_id: executionContext.getStore()?.traceId,
-      span_id: executionContext.getStore()?.spanId,
-    })
+  const logInfo = (
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
+    sendLog(withAttributes(createLogEvent('log', 'info', message), extra))
   }
 
-  // TODO: Using query in message only works for this test project because it uses tRPC.
-  // In production, consider using a more generic message or sanitizing the query.
-  const message = metadata?.errorCode
-    ? `Database query failed: ${query.substring(0, 50)}${
-        query.length > 50 ? '...' : ''
-      }`
-    : `Database query completed: ${query.substring(0, 50)}${
-        query.length > 50 ? '...' : ''
-      }`
-
-  const event: LogEvent = createLogEvent(
-    'db',
-    metadata?.errorCode ? 'error' : 'info',
-    message
-  )
-
-  const enhancedEvent: LogEvent = {
-    ...event,
-    trace_info: {
-      db_query: query,
-      db_duration_ms: Math.round(durationMs),
-      db_rows_affected: rowsAffected,
-      db_query_type: metadata?.queryType,
-      db_table_name: metadata?.tableName,
-      db_database: metadata?.database,
-      db_rows_examined: metadata?.rowsExamined,
-      db_error_code: metadata?.errorCode,
-      db_error_message: metadata?.errorMessage,
-      db_connection_id: metadata?.connectionId,
-      db_transaction_id: metadata?.transactionId,
-      custom_fields: Object.keys(extra).length > 0 ? extra : undefined,
-    },
-    db_info: {
-      db_query: query,
-      db_duration_ms: Math.round(durationMs),
-      db_rows_affected: rowsAffected,
-      db_query_type: metadata?.queryType,
-      db_table_name: metadata?.tableName,
-      db_database: metadata?.database,
-      db_rows_examined: metadata?.rowsExamined,
-      db_error_code: metadata?.errorCode,
-      db_error_message: metadata?.errorMessage,
-      db_connection_id: metadata?.connectionId,
-      db_transaction_id: metadata?.transactionId,
-      custom_fields: Object.keys(extra).length > 0 ? extra : undefined,
-    },
+  const logWarn = (
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
+    sendLog(withAttributes(createLogEvent('log', 'warn', message), extra))
   }
 
-  sendLog(enhancedEvent)
-}
+  const logError = (
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
+    sendLog(withAttributes(createLogEvent('log', 'error', message), extra))
+  }
 
-export const startHttpTrace = ({
-  method,
-  path,
-  userAgent,
-  remoteIP,
-}: {
-  method: string
-  path: string
-  userAgent?: string
-  remoteIP?: string
-}): void => {
-  const event: LogEvent = createLogEvent(
-    'http',
-    'info',
-    `${method} ${path} - HTTP request started`
-  )
-  const enhancedEvent: LogEvent = {
-    ...event,
-    trace_info: {
-      http_method: method,
-      http_path: path,
-      http_user_agent: userAgent,
-      http_remote_ip: remoteIP && isValidIP(remoteIP) ? remoteIP : undefined,
-    },
+  const logDebug = (
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
+    sendLog(withAttributes(createLogEvent('log', 'debug', message), extra))
   }
 
-  sendLog(enhancedEvent)
-}
+  const logFatal = (
+    message: string,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
+    sendLog(withAttributes(createLogEvent('log', 'fatal', message), extra))
+  }
 
-export const endHttpTrace = ({
-  method,
-  path,
-  statusCode,
-  durationMs,
-}: {
-  method: string
-  path: string
-  statusCode: number
-  durationMs: number
-}): void => {
-  const event: LogEvent = createLogEvent(
-    'http',
-    'info',
-    `${method} ${path} - HTTP request completed`
-  )
-  const enhancedEvent: LogEvent = {
-    ...event,
-    trace_info: {
-      http_status_code: isValidHttpStatus(statusCode) ? statusCode : undefined,
-      http_duration_ms: Math.round(durationMs),
-      http_finished: true,
-      log_count: executionContext.getStore()?.logCount,
-    },
+  // Reports a thrown value with its stack, cause chain and fingerprint
+  const logException = (
+    err: unknown,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
+    const error = captureError(err, config)
+    const event = withAttributes(
+      createLogEvent('log', 'error', `${error.type}: ${error.message}`),
+      extra
+    )
+    sendLog({ ...event, error })
   }
 
-  sendLog(enhancedEvent)
-}
+  const logDbOperation = (
+    query: string,
+    durationMs: number,
+    rowsAffected?: number,
+    metadata?: DbOperationMetadata,
+    extra: Record<string, unknown> = {}
+  ): void => {
+    const { _beacon_skip } = extra
+    if (_beacon_skip === true) return
 
-export function runInSpan<T>(fn: () => Promise<T> | T): Promise<T> | T {
-  const parentStore = executionContext.getStore()
+    // Inferred type and table fill in what the caller left out
+    const analysis = analyzeSql(query)
+    const reportedQuery = config.normalizeDbQueries
+      ? analysis.normalized
+      : query
+    const queryType = metadata?.queryType ?? analysis.queryType
+    const tableName = metadata?.tableName ?? analysis.tables[0]
 
-  const childStore = {
-    traceId: parentStore?.traceId || randomUUID(),
-    spanId: randomUUID(),
-    parentSpanId: parentStore?.spanId,
-    logCount: parentStore?.logCount || 0, // INHERIT parent's count
+    const labels = { table: tableName, query_type: queryType }
+    dbOperations.add(1, labels)
+    if (metadata?.errorCode) dbErrors.add(1, labels)
+    dbDuration.record(durationMs, labels)
+
+    // Looked at together with the other queries of the request by endHttpTrace
+    const store = executionContext.getStore()
+    if (store) {
+      store.dbActivity ??= createDbActivity()
+      recordQuery(
+        store.dbActivity,
+        {
+          normalized: analysis.normalized,
+          reported: reportedQuery,
+          hash: analysis.hash,
+        },
+        durationMs
+      )
+    }
+
+    if (debugLogging) {
+      console.log('📊 logDbOperation called:', {
+        query:
+          reportedQuery.substring(0, 50) +
+          (reportedQuery.length > 50 ? '...' : ''),
+        durationMs,
+        metadata,
+        trace_id: executionContext.getStore()?.traceId,
+        span_id: executionContext.getStore()?.spanId,
+      })
+    }
+
+    const summary = `${reportedQuery.substring(0, 50)}${
+      reportedQuery.length > 50 ? '...' : ''
+    }`
+    const message = metadata?.errorCode
+      ? `Database query failed: ${summary}`
+      : `Database query completed: ${summary}`
+
+    const custom_fields = serializeAttributes(extra, config)
+    const event: LogEvent = createLogEvent(
+      'db',
+      metadata?.errorCode ? 'error' : 'info',
+      message
+    )
+
+    const enhancedEvent: LogEvent = {
+      ...event,
+      trace_info: {
+        db_query: reportedQuery,
+        db_query_hash: analysis.hash,
+        db_duration_ms: Math.round(durationMs),
+        db_rows_affected: rowsAffected,
+        db_query_type: queryType,
+        db_table_name: tableName,
+        db_tables: analysis.tables.length > 0 ? analysis.tables : undefined,
+        db_database: metadata?.database,
+        db_rows_examined: metadata?.rowsExamined,
+        db_error_code: metadata?.errorCode,
+        db_error_message: metadata?.errorMessage,
+        db_connection_id: metadata?.connectionId,
+        db_transaction_id: metadata?.transactionId,
+        custom_fields,
+      },
+      db_info: {
+        db_query: reportedQuery,
+        db_query_hash: analysis.hash,
+        db_duration_ms: Math.round(durationMs),
+        db_rows_affected: rowsAffected,
+        db_query_type: queryType,
+        db_table_name: tableName,
+        db_tables: analysis.tables.length > 0 ? analysis.tables : undefined,
+        db_database: metadata?.database,
+        db_rows_examined: metadata?.rowsExamined,
+        db_error_code: metadata?.errorCode,
+        db_error_message: metadata?.errorMessage,
+        db_connection_id: metadata?.connectionId,
+        db_transaction_id: metadata?.transactionId,
+        custom_fields,
+      },
+    }
+
+    sendLog(enhancedEvent)
   }
 
-  return executionContext.run(childStore, () => {
-    const result = fn()
+  const startHttpTrace = ({
+    method,
+    path,
+    route,
+    notFound,
+    userAgent,
+    remoteIP,
+  }: {
+    method: string
+    path: string
+    route?: string // Template the framework matched, e.g. /users/:id
+    notFound?: boolean
+    userAgent?: string
+    remoteIP?: string
+  }): void => {
+    // Spans started during the request share it, so their queries count too
+    const store = executionContext.getStore()
+    if (store) store.dbActivity = createDbActivity()
+
+    const event: LogEvent = createLogEvent(
+      'http',
+      'info',
+      `${method} ${path} - HTTP request started`
+    )
+    const enhancedEvent: LogEvent = {
+      ...event,
+      trace_info: {
+        http_method: method,
+        http_path: path,
+        http_route: route,
+        http_not_found: notFound,
+        http_user_agent: userAgent,
+        http_remote_ip: remoteIP && isValidIP(remoteIP) ? remoteIP : undefined,
+      },
+    }
+
+    sendLog(enhancedEvent)
+  }
+
+  const endHttpTrace = ({
+    method,
+    path,
+    statusCode,
+    durationMs,
+  }: {
+    method: string
+    path: string
+    statusCode: number
+    durationMs: number
+  }): void => {
+    // Sent before the completion event, which ends the trace for tail sampling.
+    // They skip the limiter, a warning about this request must not be folded
+    // into another request's duplicate summary.
+    const dbActivity = executionContext.getStore()?.dbActivity
+    if (dbActivity && !sampledOut()) {
+      detectDbIssues(dbActivity, durationMs, config).forEach((issue) =>
+        deliver({
+          ...createLogEvent('log', 'warn', issue.message),
+          trace_info: issue.trace_info,
+        })
+      )
+    }
+
+    const event: LogEvent = createLogEvent(
+      'http',
+      'info',
+      `${method} ${path} - HTTP request completed`
+    )
+    const enhancedEvent: LogEvent = {
+      ...event,
+      trace_info: {
+        http_status_code: isValidHttpStatus(statusCode)
+          ? statusCode
+          : undefined,
+        http_duration_ms: Math.round(durationMs),
+        http_finished: true,
+        log_count: executionContext.getStore()?.logCount,
+      },
+    }
+
+    sendLog(enhancedEvent)
+  }
+
+  // Bound fields go into custom_fields of every event; fields passed at the
+  // call site win over bindings with the same name
+  const createLogger = (bindings: Record<string, unknown> = {}): Logger => {
+    const bind = (
+      extra: Record<string, unknown> = {}
+    ): Record<string, unknown> => ({ ...bindings, ...extra })
+    return {
+      info: (message, extra) => logInfo(message, bind(extra)),
+      warn: (message, extra) => logWarn(message, bind(extra)),
+      error: (message, extra) => logError(message, bind(extra)),
+      debug: (message, extra) => logDebug(message, bind(extra)),
+      fatal: (message, extra) => logFatal(message, bind(extra)),
+      exception: (err, extra) => logException(err, bind(extra)),
+      db: (query, durationMs, rowsAffected, metadata, extra) =>
+        logDbOperation(query, durationMs, rowsAffected, metadata, bind(extra)),
+      child: (moreBindings) => createLogger(bind(moreBindings)),
+    }
+  }
+
+  const spanStarted = (
+    name: string,
+    attributes: Record<string, unknown>,
+    links: SpanContext[] = []
+  ): void => {
+    const event = createLogEvent('span', 'info', `${name} - span started`)
+    const enhancedEvent: LogEvent = {
+      ...event,
+      trace_info: {
+        span_name: name,
+        span_links:
+          links.length > 0
+            ? links.map((link) => ({
+                trace_id: link.traceId,
+                span_id: link.spanId,
+              }))
+            : undefined,
+      },
+    }
+
+    sendLog(withAttributes(enhancedEvent, attributes))
+  }
+
+  const spanEnded = (
+    name: string,
+    attributes: Record<string, unknown>,
+    startedAt: bigint,
+    outcome: { status: SpanStatus; message?: string; error?: unknown }
+  ): void => {
+    const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6
+    const failed = outcome.status === 'error'
+    const event = createLogEvent(
+      'span',
+      failed ? 'error' : 'info',
+      `${name} - span ${failed ? 'failed' : 'completed'}`
+    )
+    const enhancedEvent: LogEvent = {
+      ...event,
+      trace_info: {
+        span_name: name,
+        span_status: outcome.status,
+        span_status_message: outcome.message,
+        span_duration_ms: Math.round(durationMs * 1000) / 1000,
+        span_finished: true,
+      },
+      ...('error' in outcome
+        ? { error: captureError(outcome.error, config) }
+        : {}),
+    }
+
+    sendLog(withAttributes(enhancedEvent, attributes))
+  }
+
+  const spanEvent = (
+    spanName: string,
+    name: string,
+    attributes: Record<string, unknown>
+  ): void => {
+    const event = createLogEvent('span', 'info', `${spanName} - ${name}`)
+    sendLog(
+      withAttributes(
+        { ...event, trace_info: { span_name: spanName } },
+        attributes
+      )
+    )
+  }
+
+  // runInSpan(fn) only opens a span context; runInSpan(name, fn) also emits
+  // span start and end events with duration and status.
+  function runInSpan<T>(
+    fn: () => Promise<T> | T,
+    sampling?: Omit<SamplingContext, 'traceId'>
+  ): Promise<T> | T
+  function runInSpan<T>(
+    name: string,
+    fn: () => Promise<T> | T,
+    options?: SpanOptions
+  ): Promise<T> | T
+  function runInSpan<T>(
+    nameOrFn: string | (() => Promise<T> | T),
+    fnOrSampling?: (() => Promise<T> | T) | Omit<SamplingContext, 'traceId'>,
+    options: SpanOptions = {}
+  ): Promise<T> | T {
+    const name = typeof nameOrFn === 'string' ? nameOrFn : undefined
+    const fn = (name === undefined ? nameOrFn : fnOrSampling) as () =>
+      | Promise<T>
+      | T
+    const sampling =
+      (name === undefined
+        ? (fnOrSampling as Omit<SamplingContext, 'traceId'> | undefined)
+        : options.sampling) ?? {}
+    const attributes = options.attributes ?? {}
+
+    const parentStore = executionContext.getStore()
+    const traceId = parentStore?.traceId || randomUUID()
+
+    const childStore = {
+      traceId,
+      spanId: randomUUID(),
+      parentSpanId: parentStore?.spanId || undefined,
+      logCount: parentStore?.logCount || 0, // INHERIT parent's count
+      // Head sampling is decided once, when the trace starts. Remote parents
+      // that carry no decision are sampled like a new trace.
+      sampled:
+        parentStore?.sampled ??
+        shouldSampleTrace({ traceId, ...sampling }, config),
+      traceState: parentStore?.traceState,
+      dbActivity: parentStore?.dbActivity,
+    }
 
     // CRITICAL: Sync the updated count back to parent
-    if (parentStore) {
-      parentStore.logCount = childStore.logCount
+    const syncLogCount = (): void => {
+      if (parentStore) {
+        parentStore.logCount = Math.max(
+          parentStore.logCount,
+          childStore.logCount
+        )
+      }
+    }
+
+    return executionContext.run(childStore, () => {
+      const startedAt = process.hrtime.bigint()
+      if (name !== undefined) spanStarted(name, attributes)
+
+      const finish = (failure?: { error: unknown }): void => {
+        if (name !== undefined) {
+          spanEnded(
+            name,
+            attributes,
+            startedAt,
+            failure ? { status: 'error', ...failure } : { status: 'ok' }
+          )
+        }
+        syncLogCount()
+      }
+
+      let result: Promise<T> | T
+      try {
+        result = fn()
+      } catch (error) {
+        finish({ error })
+        throw error
+      }
+
+      if (!(result instanceof Promise)) {
+        finish()
+        return result
+      }
+      // Logs written before the first await are visible to the parent right away,
+      // the rest once the span settles
+      syncLogCount()
+      return result.then(
+        (value) => {
+          finish()
+          return value
+        },
+        (error: unknown) => {
+          finish({ error })
+          throw error
+        }
+      )
+    })
+  }
+
+  // Stores of started spans, so spans parented to them continue their count
+  const spanStores = new WeakMap<
+    Span,
+    NonNullable<ReturnType<typeof executionContext.getStore>>
+  >()
+
+  // For event emitter, stream and callback code that can't be wrapped in
+  // runInSpan. The span lasts until end() is called.
+  const startSpan = (name: string, options: StartSpanOptions = {}): Span => {
+    const activeStore = executionContext.getStore()
+    const parent = options.parent
+      ? 'context' in options.parent
+        ? options.parent.context
+        : options.parent
+      : activeStore
+    const traceId = parent?.traceId || randomUUID()
+    // The local store whose order_in_trace this span continues, if any
+    const parentStore = !options.parent
+      ? activeStore
+      : 'context' in options.parent
+      ? spanStores.get(options.parent)
+      : activeStore?.traceId === traceId
+      ? activeStore
+      : undefined
+
+    const store = {
+      traceId,
+      spanId: randomUUID(),
+      parentSpanId: parent?.spanId || undefined,
+      logCount: parentStore?.logCount || 0,
+      sampled:
+        parent?.sampled ??
+        shouldSampleTrace({ traceId, ...options.sampling }, config),
+      traceState: parent?.traceState,
+      dbActivity: parentStore?.dbActivity,
+    }
+    const attributes = { ...options.attributes }
+    const startedAt = process.hrtime.bigint()
+    let status: SpanStatus = 'ok'
+    let statusMessage: string | undefined
+    let ended = false
+
+    executionContext.run(store, () =>
+      spanStarted(name, attributes, options.links)
+    )
+
+    const endWarning = debugLogging
+      ? setTimeout(() => {
+          console.warn(
+            `⚠️ Span "${name}" was not ended after ${config.spanEndWarningMs}ms`
+          )
+        }, config.spanEndWarningMs)
+      : undefined
+    endWarning?.unref?.()
+
+    const span: Span = {
+      context: {
+        traceId,
+        spanId: store.spanId,
+        sampled: store.sampled,
+        traceState: store.traceState,
+      },
+      setAttribute: (key, value) => {
+        attributes[key] = value
+        return span
+      },
+      addEvent: (eventName, eventAttributes = {}) => {
+        executionContext.run(store, () =>
+          spanEvent(name, eventName, eventAttributes)
+        )
+        return span
+      },
+      recordException: (err, extra) => {
+        executionContext.run(store, () => logException(err, extra))
+        return span
+      },
+      setStatus: (newStatus, message) => {
+        status = newStatus
+        statusMessage = message
+        return span
+      },
+      end: () => {
+        if (ended) {
+          if (debugLogging) {
+            console.warn(`⚠️ Span "${name}" was ended more than once`)
+          }
+          return
+        }
+        ended = true
+        clearTimeout(endWarning)
+        executionContext.run(store, () =>
+          spanEnded(name, attributes, startedAt, {
+            status,
+            message: statusMessage,
+          })
+        )
+        // The parent keeps its order_in_trace going after this span
+        if (parentStore) {
+          parentStore.logCount = Math.max(parentStore.logCount, store.logCount)
+        }
+      },
+      runWithin: (fn) => executionContext.run(store, fn),
     }
+    spanStores.set(span, store)
+    return span
+  }
+
+  return {
+    logInfo,
+    logWarn,
+    logError,
+    logDebug,
+    logFatal,
+    logException,
+    logDbOperation,
+    startHttpTrace,
+    endHttpTrace,
+    runInSpan,
+    startSpan,
+    createLogger,
+    metrics: {
+      counter: metrics.counter,
+      gauge: metrics.gauge,
+      histogram: metrics.histogram,
+    },
+    limiterStats: logLimiter.stats,
+    // Sends pending duplicate summaries and the last metrics interval
+    close: () => {
+      logLimiter.close()
+      metrics.close()
+    },
+  }
+}
+
+export type LogApi = ReturnType<typeof createLogApi>
+
+// ====== DEFAULT CLIENT API ======
+// Configured from DEFAULT_CONFIG and sent through the shared exporter
+
+const defaultLogApi = createLogApi((logEvent) => exportLog(logEvent))
+
+export const {
+  logInfo,
+  logWarn,
+  logError,
+  logDebug,
+  logFatal,
+  logException,
+  logDbOperation,
+  startHttpTrace,
+  endHttpTrace,
+  runInSpan,
+  startSpan,
+  createLogger,
+  metrics,
+} = defaultLogApi
+
+// Logs held back by duplicate suppression and rate limiting
+export const getLogLimiterStats = defaultLogApi.limiterStats
 
-    return result
-  })
+// Sends pending duplicate summaries and the last metrics interval, then drains
+// the shared exporter. Returns false if the deadline passed first.
+export const shutdown = async (timeoutMs = 5000): Promise<boolean> => {
+  defaultLogApi.close()
+  return shutdownExporter(timeoutMs)
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { DROPPED_ATTRIBUTES_KEY, serializeAttributes } from './attributes.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+
+const config: BeaconConfig = {
+  ...DEFAULT_CONFIG,
+  maxAttributeCount: 4,
+  maxAttributeDepth: 2,
+  maxAttributeValueLength: 10,
+  maxAttributesBytes: 1024,
+}
+
+describe('serializeAttributes', () => {
+  it('should convert values JSON cannot represent', () => {
+    const circular: Record<string, unknown> = { name: 'loop' }
+    circular['self'] = circular
+
+    const attributes = serializeAttributes(
+      {
+        id: 10n,
+        at: new Date('2025-01-01T00:00:00Z'),
+        tags: new Set(['a', 'b']),
+        circular,
+      },
+      config
+    )
+
+    expect(attributes).toEqual({
+      id: '10',
+      at: '2025-01-01T00:00:00.000Z',
+      tags: ['a', 'b'],
+      circular: { name: 'loop', self: '[Circular]' },
+    })
+    expect(() => JSON.stringify(attributes)).not.toThrow()
+  })
+
+  it('should summarize buffers and convert maps', () => {
+    expect(
+      serializeAttributes(
+        {
+          payload: Buffer.from('hello'),
+          counts: new Map([['GET', 2]]),
+          ratio: NaN,
+        },
+        config
+      )
+    ).toEqual({
+      payload: '[Buffer 5 bytes]',
+      counts: { GET: 2 },
+      ratio: 'NaN',
+    })
+  })
+
+  it('should keep shared references that are not circular', () => {
+    const shared = { id: 1 }
+
+    expect(serializeAttributes({ a: shared, b: shared }, config)).toEqual({
+      a: { id: 1 },
+      b: { id: 1 },
+    })
+  })
+
+  it('should enforce depth, length and count limits', () => {
+    expect(
+      serializeAttributes(
+        {
+          nested: { level1: { level2: { level3: true } } },
+          text: 'a'.repeat(50),
+          list: [1, 2, 3, 4, 5, 6],
+          fourth: 4,
+          fifth: 5,
+          sixth: 6,
+        },
+        config
+      )
+    ).toEqual({
+      nested: { level1: { level2: '[Object]' } },
+      text: 'aaaaaaa...',
+      list: [1, 2, 3, 4],
+      fourth: 4,
+      [DROPPED_ATTRIBUTES_KEY]: 2,
+    })
+  })
+
+  it('should drop attributes past maxAttributesBytes', () => {
+    const attributes = serializeAttributes(
+      { first: 'x'.repeat(8), second: 'y'.repeat(8) },
+      { ...config, maxAttributesBytes: 24 }
+    )
+
+    expect(attributes).toEqual({
+      first: 'xxxxxxxx',
+      [DROPPED_ATTRIBUTES_KEY]: 1,
+    })
+  })
+
+  it('should skip control keys and return undefined when nothing is left', () => {
+    expect(
+      serializeAttributes({ _beacon_skip: false, missing: undefined }, config)
+    ).toBeUndefined()
+  })
+})
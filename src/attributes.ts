@@ -0,0 +1,134 @@
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== STRUCTURED ATTRIBUTES ======
+
+// Keys starting with this prefix steer the library and are never shipped
+const CONTROL_KEY_PREFIX = '_beacon_'
+
+// Set on custom_fields when attributes had to be left out
+export const DROPPED_ATTRIBUTES_KEY = '_dropped_attributes'
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? value.substring(0, maxLength - 3) + '...' : value
+
+// Converts any value into something JSON.stringify handles losslessly enough
+// for logs: no throws on BigInt or cycles, no silently empty Maps and Sets.
+// `ancestors` only holds the current path, so shared references are kept.
+const toJsonValue = (
+  value: unknown,
+  depth: number,
+  ancestors: object[],
+  config: BeaconConfig
+): unknown => {
+  switch (typeof value) {
+    case 'string':
+      return truncate(value, config.maxAttributeValueLength)
+    case 'number':
+      return Number.isFinite(value) ? value : String(value)
+    case 'boolean':
+      return value
+    case 'bigint':
+      return value.toString()
+    case 'symbol':
+      return value.toString()
+    case 'function':
+      return `[Function ${value.name || 'anonymous'}]`
+    case 'undefined':
+      return undefined
+  }
+  if (value === null) return null
+
+  const object = value as object
+  if (object instanceof Date) {
+    return Number.isNaN(object.getTime())
+      ? 'Invalid Date'
+      : object.toISOString()
+  }
+  if (Buffer.isBuffer(object)) {
+    return `[Buffer ${object.length} bytes]`
+  }
+  if (ArrayBuffer.isView(object)) {
+    return `[${object.constructor.name} ${object.byteLength} bytes]`
+  }
+  if (object instanceof RegExp) {
+    return object.toString()
+  }
+  if (ancestors.includes(object)) {
+    return '[Circular]'
+  }
+  if (depth >= config.maxAttributeDepth) {
+    return Array.isArray(object) || object instanceof Set
+      ? '[Array]'
+      : '[Object]'
+  }
+
+  const path = [...ancestors, object]
+  const convert = (item: unknown): unknown =>
+    toJsonValue(item, depth + 1, path, config)
+
+  if (Array.isArray(object) || object instanceof Set) {
+    return Array.from(object)
+      .slice(0, config.maxAttributeCount)
+      .map((item) => convert(item) ?? null)
+  }
+
+  const entries: Array<[unknown, unknown]> =
+    object instanceof Map
+      ? Array.from(object.entries())
+      : object instanceof Error
+      ? [
+          ['name', object.name],
+          ['message', object.message],
+        ]
+      : Object.entries(object)
+
+  const result: Record<string, unknown> = {}
+  entries.slice(0, config.maxAttributeCount).forEach(([key, item]) => {
+    const converted = convert(item)
+    if (converted !== undefined) {
+      result[String(key)] = converted
+    }
+  })
+  return result
+}
+
+// Turns the `extra` argument of the log functions into custom_fields.
+// Attributes past maxAttributeCount or maxAttributesBytes are dropped and
+// counted instead of failing the whole event.
+export const serializeAttributes = (
+  extra: Record<string, unknown>,
+  config: BeaconConfig = DEFAULT_CONFIG
+): Record<string, unknown> | undefined => {
+  const attributes: Record<string, unknown> = {}
+  let count = 0
+  let bytes = 2 // The surrounding braces
+  let dropped = 0
+
+  for (const [key, value] of Object.entries(extra)) {
+    if (key.startsWith(CONTROL_KEY_PREFIX)) continue
+
+    const converted = toJsonValue(value, 0, [], config)
+    if (converted === undefined) continue
+
+    const size = Buffer.byteLength(JSON.stringify({ [key]: converted })) - 1
+    if (
+      count >= config.maxAttributeCount ||
+      bytes + size > config.maxAttributesBytes
+    ) {
+      dropped += 1
+      continue
+    }
+    attributes[key] = converted
+    count += 1
+    bytes += size
+  }
+
+  if (dropped > 0) {
+    attributes[DROPPED_ATTRIBUTES_KEY] = dropped
+    if (debugLogging) {
+      console.log(`✂️ Dropped ${dropped} attributes over the limits`)
+    }
+  }
+  return Object.keys(attributes).length > 0 ? attributes : undefined
+}
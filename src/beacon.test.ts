@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import {
+  deliverBatchLogs,
+  parseRetryAfter,
+  sendBatchLogs,
+  LogEvent,
+} from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+
+const mockFetch = vi.fn()
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+  new Response(status === 204 ? null : 'body', { status, headers })
+
+const events: LogEvent[] = [
+  { event_type: 'log', severity: 'info', message: 'hello' },
+]
+
+let server = 0
+const configFor = (overrides: Partial<BeaconConfig> = {}): BeaconConfig => ({
+  ...DEFAULT_CONFIG,
+  // A fresh baseUrl per test keeps circuit breaker state isolated
+  baseUrl: `http://beacon-${++server}.test`,
+  sendEnabled: true,
+  maxRetries: 3,
+  retryDelay: 1000,
+  maxRetryDelay: 5000,
+  ...overrides,
+})
+
+describe('sendWithRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('fetch', mockFetch)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should not retry permanent errors and report them as rejected', async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(response(413)))
+
+    expect(await deliverBatchLogs(events, configFor())).toBe('rejected')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(await sendBatchLogs(events, configFor())).toBe(false)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should honor Retry-After on 429', async () => {
+    mockFetch
+      .mockResolvedValueOnce(response(429, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(response(204))
+
+    const result = sendBatchLogs(events, configFor())
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await result).toBe(true)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should give up when Retry-After exceeds maxRetryDelay', async () => {
+    mockFetch.mockResolvedValue(response(503, { 'Retry-After': '120' }))
+
+    expect(await sendBatchLogs(events, configFor())).toBe(false)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should back off with full jitter capped at maxRetryDelay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
+
+    const result = sendBatchLogs(events, configFor())
+    await vi.runAllTimersAsync()
+
+    expect(await result).toBe(false)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+    expect(setTimeoutSpy.mock.calls.map((call) => call[1])).toEqual([
+      1000, 2000, 4000,
+    ])
+  })
+
+  it('should send the API key and extra headers', async () => {
+    mockFetch.mockResolvedValue(response(204))
+
+    await sendBatchLogs(
+      events,
+      configFor({ apiKey: 'secret', headers: { 'x-tenant': 'acme' } })
+    )
+
+    expect(mockFetch.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer secret',
+      'x-tenant': 'acme',
+    })
+  })
+
+  it('should pass a timeout signal to fetch', async () => {
+    mockFetch.mockResolvedValue(response(204))
+
+    await sendBatchLogs(events, configFor())
+
+    expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('should parse delay-seconds and HTTP dates', () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') })
+
+    expect(parseRetryAfter('3')).toBe(3000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT')).toBe(10000)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+    expect(parseRetryAfter(null)).toBeUndefined()
+
+    vi.useRealTimers()
+  })
+})
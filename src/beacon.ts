@@ -1,11 +1,18 @@
 import { debugLogging } from './debug.js'
 import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import {
+  createCircuitBreaker,
+  type CircuitBreaker,
+  type CircuitState,
+} from './circuit-breaker.js'
 
 // Enhanced TraceInfo type for multi-table buffer system with comprehensive DB tracking
 export type TraceInfo = {
   // HTTP fields
   http_method?: string
   http_path?: string // Original path: /api/users/123
+  http_route?: string // Route template: /api/users/:id
+  http_not_found?: boolean // No route matched, the 404 handler answered
   http_status_code?: number // 100-599 only
   http_duration_ms?: number
   http_user_agent?: string
@@ -14,12 +21,22 @@ export type TraceInfo = {
 
   log_count?: number // Number of logs in the trace
 
+  // Span fields
+  span_name?: string
+  span_status?: 'ok' | 'error'
+  span_status_message?: string
+  span_duration_ms?: number // High resolution, not rounded to whole ms
+  span_finished?: boolean // Whether the span has ended
+  span_links?: Array<{ trace_id: string; span_id: string }> // Related spans, e.g. the batch a message came from
+
   // Database fields - EXPANDED for comprehensive tracking
   db_query?: string
   db_duration_ms?: number
   db_rows_affected?: number
+  db_query_hash?: string // Groups queries that differ only in literals
   db_query_type?: string // SELECT, INSERT, UPDATE, DELETE, etc.
   db_table_name?: string // Primary table being queried
+  db_tables?: string[] // Every table referenced, JOINs and subqueries included
   db_database?: string // Database/schema name
   db_rows_examined?: number // For performance analysis
   db_error_code?: string // Database error code if failed
@@ -27,6 +44,12 @@ export type TraceInfo = {
   db_connection_id?: string // Database connection identifier
   db_transaction_id?: string // Transaction ID
 
+  // Database issues found when the HTTP request ends
+  db_issue?: 'n_plus_one' | 'db_time_share' | 'slow_query'
+  db_query_count?: number // Executions of db_query in the trace
+  db_trace_query_count?: number // All queries of the trace
+  db_trace_duration_ms?: number // Time spent in all queries of the trace
+
   // Custom fields
   custom_fields?: Record<string, unknown>
 }
@@ -35,8 +58,10 @@ export type DbInfo = {
   db_query?: string
   db_duration_ms?: number
   db_rows_affected?: number
+  db_query_hash?: string // Groups queries that differ only in literals
   db_query_type?: string // SELECT, INSERT, UPDATE, DELETE, etc.
   db_table_name?: string // Primary table being queried
+  db_tables?: string[] // Every table referenced, JOINs and subqueries included
   db_database?: string // Database/schema name
   db_rows_examined?: number // For performance analysis
   db_error_code?: string // Database error code if failed
@@ -48,9 +73,58 @@ export type DbInfo = {
   custom_fields?: Record<string, unknown>
 }
 
+// Identifies the process an event came from (OpenTelemetry semantic names)
+export type ResourceAttributes = {
+  'service.name'?: string
+  'service.version'?: string
+  'deployment.environment'?: string
+  'host.name'?: string
+  'process.pid'?: number
+  [key: string]: string | number | boolean | undefined
+}
+
+// One parsed line of a V8 stack trace
+export type StackFrame = {
+  function?: string
+  file?: string
+  line?: number
+  column?: number
+}
+
+// A captured exception, including its cause and AggregateError chain
+export type ErrorInfo = {
+  type: string // Error class name, e.g. TypeError
+  message: string
+  stack?: string // Raw stack, truncated
+  frames: StackFrame[]
+  properties?: Record<string, unknown> // Own enumerable properties like `code`
+  cause?: ErrorInfo
+  errors?: ErrorInfo[] // AggregateError members
+  fingerprint?: string // Stable across occurrences, set on the outermost error
+}
+
+export type MetricType = 'counter' | 'gauge' | 'histogram'
+
+// One series of an aggregated metric: an instrument plus one set of labels
+export type MetricInfo = {
+  metric_name: string
+  metric_type: MetricType
+  metric_unit?: string
+  metric_description?: string
+  metric_labels?: Record<string, string>
+  metric_interval_ms: number // Length of the aggregation window
+  metric_value?: number // Counter increase in the window, or last gauge value
+  metric_count?: number // Histogram only
+  metric_sum?: number
+  metric_min?: number
+  metric_max?: number
+  metric_buckets?: number[] // Upper bounds
+  metric_bucket_counts?: number[] // Per bucket, plus a last +Inf bucket
+}
+
 // Enhanced LogEvent type for beacon-server multi-table support
 export type LogEvent = {
-  event_type: 'log' | 'http' | 'db' // Required
+  event_type: 'log' | 'http' | 'db' | 'span' | 'metric' // Required
   message: string // Required
   severity?: 'debug' | 'info' | 'warn' | 'error' | 'fatal' // Optional (default: info)
   timestamp?: string // Optional (ISO 8601)
@@ -64,15 +138,85 @@ export type LogEvent = {
   // NEW: Enhanced trace information (stored in traces table)
   trace_info?: TraceInfo // Optional
   db_info?: DbInfo // Optional
+
+  error?: ErrorInfo // Set by logException and the `error` option
+  metric_info?: MetricInfo // Set on 'metric' events
+
+  resource?: ResourceAttributes // Attached by the exporter from config.resource
+}
+
+// Content-Type plus the API key and any extra headers from config
+const buildHeaders = (config: BeaconConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+  ...config.headers,
+})
+
+// A breaker that probes /health with the config's own credentials
+export const createBeaconCircuitBreaker = (
+  config: BeaconConfig = DEFAULT_CONFIG
+): CircuitBreaker =>
+  createCircuitBreaker(() => checkBeaconHealth(config), config)
+
+// One breaker per Beacon server for the default API. Clients made with
+// createBeacon bring their own, so tenants never share circuit state.
+const circuitBreakers = new Map<string, CircuitBreaker>()
+
+export const getCircuitBreaker = (config: BeaconConfig): CircuitBreaker => {
+  let breaker = circuitBreakers.get(config.baseUrl)
+  if (!breaker) {
+    breaker = createBeaconCircuitBreaker(config)
+    circuitBreakers.set(config.baseUrl, breaker)
+  }
+  return breaker
+}
+
+export const getCircuitState = (
+  config: BeaconConfig = DEFAULT_CONFIG
+): CircuitState => getCircuitBreaker(config).state()
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (
+  header: string | null | undefined
+): number | undefined => {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (header.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
 }
 
-// Enhanced retry logic with validation error handling
+// Full jitter: a random delay up to the capped exponential backoff, so
+// retries from many processes do not hit the server in lockstep
+const backoffDelay = (config: BeaconConfig, retryCount: number): number =>
+  Math.random() *
+  Math.min(config.maxRetryDelay, config.retryDelay * Math.pow(2, retryCount))
+
+// 'failed' may succeed later, 'rejected' never will
+export type SendResult = 'sent' | 'failed' | 'rejected'
+
+// Enhanced retry logic with validation error handling.
+// Only network errors, timeouts and retryableStatusCodes are retried; any
+// other error status is permanent and resolves 'rejected' right away.
+// Resolves 'failed' when the request still failed after all retries or the
+// circuit breaker refused it.
 const sendWithRetry = async (
   url: string,
   options: RequestInit,
   config: BeaconConfig,
+  breaker: CircuitBreaker,
   retryCount = 0
-): Promise<void> => {
+): Promise<SendResult> => {
+  if (!(await breaker.allowRequest())) {
+    if (debugLogging) {
+      console.log(`🔌 Circuit open, skipping request to ${url}`)
+    }
+    return 'failed'
+  }
+
+  let retryAfterMs: number | undefined
   try {
     if (debugLogging) {
       console.log(`🌐 Sending request to ${url}`, {
@@ -82,7 +226,11 @@ const sendWithRetry = async (
       })
     }
 
-    const response = await fetch(url, options)
+    // A hung connection must not block the exporter forever
+    const response = await fetch(url, {
+      ...options,
+      signal: AbortSignal.timeout(config.requestTimeout),
+    })
 
     if (debugLogging) {
       console.log(`📡 Server response from ${url}:`, {
@@ -98,30 +246,41 @@ const sendWithRetry = async (
         const responseText = await response.text()
         console.log(`✅ Success response body:`, responseText)
       }
-      return // Success
+      breaker.recordSuccess()
+      return 'sent'
     }
 
-    if (response.status === 400) {
-      // Validation error - don't retry, log the error
-      const errorText = await response.text()
-      console.error('❌ Validation error from server:', errorText)
+    const errorText = await response.text()
+
+    if (!config.retryableStatusCodes.includes(response.status)) {
+      // Validation, auth or size errors - retrying would fail the same way
+      if (response.status === 400) {
+        console.error('❌ Validation error from server:', errorText)
+      } else {
+        console.error(
+          `❌ Request rejected by server (HTTP ${response.status}):`,
+          errorText
+        )
+      }
       if (debugLogging) {
-        console.log('🔍 Full validation error details:', {
+        console.log('🔍 Full rejection details:', {
           status: response.status,
           statusText: response.statusText,
           body: errorText,
           url,
         })
       }
-      return // Don't retry validation errors
+      breaker.recordSuccess() // The server is up, the request was the problem
+      return 'rejected' // Don't retry permanent errors
     }
 
-    const errorText = await response.text()
+    retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
     if (debugLogging) {
       console.log(`⚠️ Error response body:`, errorText)
     }
     throw new Error(`HTTP ${response.status}: ${response.statusText}`)
   } catch (error) {
+    breaker.recordFailure()
     if (debugLogging) {
       console.log(
         `🔄 Request failed, retry ${retryCount}/${config.maxRetries}:`,
@@ -129,34 +288,46 @@ const sendWithRetry = async (
       )
     }
 
-    if (retryCount < config.maxRetries) {
-      const delay = config.retryDelay * Math.pow(2, retryCount) // Exponential backoff
+    if (retryCount >= config.maxRetries) {
+      return 'failed'
+    }
+    if (retryAfterMs !== undefined && retryAfterMs > config.maxRetryDelay) {
+      // Waiting that long would stall every batch behind this one
       if (debugLogging) {
-        console.log(`⏳ Retrying in ${delay}ms...`)
+        console.log(`⏳ Retry-After of ${retryAfterMs}ms exceeds the cap`)
       }
-      await new Promise((resolve) => setTimeout(resolve, delay))
-      return sendWithRetry(url, options, config, retryCount + 1)
+      return 'failed'
     }
+
+    const delay = retryAfterMs ?? backoffDelay(config, retryCount)
+    if (debugLogging) {
+      console.log(`⏳ Retrying in ${Math.round(delay)}ms...`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    return sendWithRetry(url, options, config, breaker, retryCount + 1)
   }
 }
 
 // Pure function to send single log
 export const sendSingleLog = async (
   logEvent: LogEvent,
-  config: BeaconConfig = DEFAULT_CONFIG
-): Promise<void> => {
+  config: BeaconConfig = DEFAULT_CONFIG,
+  breaker: CircuitBreaker = getCircuitBreaker(config)
+): Promise<boolean> => {
   if (!config.sendEnabled) {
-    return
+    return true
   }
-  await sendWithRetry(
+  const result = await sendWithRetry(
     `${config.baseUrl}/logs`,
     {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: buildHeaders(config),
       body: JSON.stringify(logEvent),
     },
-    config
+    config,
+    breaker
   )
+  return result === 'sent'
 }
 
 // Health check and utility functions - enhanced with validation
@@ -165,7 +336,9 @@ export const checkBeaconHealth = async (
 ): Promise<boolean> => {
   const { baseUrl } = config
   try {
-    const response = await fetch(`${baseUrl}/health`)
+    const response = await fetch(`${baseUrl}/health`, {
+      headers: buildHeaders(config),
+    })
     return response.ok
   } catch {
     return false
@@ -177,7 +350,9 @@ export const getBeaconStats = async (
 ): Promise<Record<string, unknown> | null> => {
   const { baseUrl } = config
   try {
-    const response = await fetch(`${baseUrl}/logs/stats`)
+    const response = await fetch(`${baseUrl}/logs/stats`, {
+      headers: buildHeaders(config),
+    })
     if (response.ok) {
       return (await response.json()) as Record<string, unknown>
     }
@@ -187,22 +362,31 @@ export const getBeaconStats = async (
   return null
 }
 
-// TODO: check this if batching is needed and it works properly
-// // Pure function to send batch logs
-// exportconst sendBatchLogs = async (
-//     logEvents: LogEvent[],
-//     config: BeaconConfig
-//   ): Promise<void> => {
-//     if (!config.sendEnabled) {
-//       return
-//     }
-//     await sendWithRetry(
-//       `${config.baseUrl}/logs/batch`,
-//       {
-//         method: 'POST',
-//         headers: { 'Content-Type': 'application/json' },
-//         body: JSON.stringify(logEvents),
-//       },
-//       config
-//     )
-//   }
+// Like sendBatchLogs, but tells failures worth another try from rejections
+export const deliverBatchLogs = async (
+  logEvents: LogEvent[],
+  config: BeaconConfig = DEFAULT_CONFIG,
+  breaker: CircuitBreaker = getCircuitBreaker(config)
+): Promise<SendResult> => {
+  if (!config.sendEnabled || logEvents.length === 0) {
+    return 'sent'
+  }
+  return sendWithRetry(
+    `${config.baseUrl}/logs/batch`,
+    {
+      method: 'POST',
+      headers: buildHeaders(config),
+      body: JSON.stringify(logEvents),
+    },
+    config,
+    breaker
+  )
+}
+
+// Pure function to send batch logs
+export const sendBatchLogs = async (
+  logEvents: LogEvent[],
+  config: BeaconConfig = DEFAULT_CONFIG,
+  breaker: CircuitBreaker = getCircuitBreaker(config)
+): Promise<boolean> =>
+  (await deliverBatchLogs(logEvents, config, breaker)) === 'sent'
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createCircuitBreaker } from './circuit-breaker.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+
+const config: BeaconConfig = {
+  ...DEFAULT_CONFIG,
+  circuitBreakerThreshold: 3,
+  circuitBreakerCooldown: 1000,
+}
+
+describe('Circuit Breaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should open after consecutive failures and refuse requests', async () => {
+    const probe = vi.fn()
+    const breaker = createCircuitBreaker(probe, config)
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.state()).toBe('closed')
+
+    breaker.recordFailure()
+    expect(breaker.state()).toBe('open')
+    expect(await breaker.allowRequest()).toBe(false)
+    expect(probe).not.toHaveBeenCalled()
+  })
+
+  it('should reset the failure count on success', () => {
+    const breaker = createCircuitBreaker(vi.fn(), config)
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.state()).toBe('closed')
+  })
+
+  it('should close when the health probe succeeds after the cooldown', async () => {
+    const probe = vi.fn().mockResolvedValue(true)
+    const breaker = createCircuitBreaker(probe, config)
+    ;[1, 2, 3].forEach(() => breaker.recordFailure())
+
+    vi.advanceTimersByTime(1000)
+    const [first, second] = await Promise.all([
+      breaker.allowRequest(),
+      breaker.allowRequest(),
+    ])
+
+    expect(first).toBe(true)
+    expect(second).toBe(true)
+    expect(probe).toHaveBeenCalledTimes(1) // Shared probe
+    expect(breaker.state()).toBe('closed')
+  })
+
+  it('should reopen when the health probe fails', async () => {
+    const probe = vi.fn().mockResolvedValue(false)
+    const breaker = createCircuitBreaker(probe, config)
+    ;[1, 2, 3].forEach(() => breaker.recordFailure())
+
+    vi.advanceTimersByTime(1000)
+    expect(await breaker.allowRequest()).toBe(false)
+    expect(breaker.state()).toBe('open')
+    expect(await breaker.allowRequest()).toBe(false)
+    expect(probe).toHaveBeenCalledTimes(1) // Waits for the next cooldown
+  })
+})
@@ -0,0 +1,83 @@
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== CIRCUIT BREAKER ======
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export type CircuitBreaker = {
+  allowRequest: () => Promise<boolean>
+  recordSuccess: () => void
+  recordFailure: () => void
+  state: () => CircuitState
+}
+
+// Opens after circuitBreakerThreshold consecutive failures. While open every
+// request is refused without touching the network. Once circuitBreakerCooldown
+// has passed, a single health probe decides between closing and reopening.
+export const createCircuitBreaker = (
+  probe: () => Promise<boolean>,
+  config: BeaconConfig = DEFAULT_CONFIG
+): CircuitBreaker => {
+  let current: CircuitState = 'closed'
+  let failures = 0
+  let openedAt = 0
+  let probing: Promise<boolean> | undefined
+
+  const transition = (next: CircuitState): void => {
+    if (current === next) return
+    if (debugLogging) {
+      console.log(`🔌 Circuit breaker ${current} → ${next}`)
+    }
+    current = next
+  }
+
+  const open = (): void => {
+    openedAt = Date.now()
+    transition('open')
+  }
+
+  const allowRequest = async (): Promise<boolean> => {
+    if (current === 'closed') return true
+    if (current === 'open') {
+      if (Date.now() - openedAt < config.circuitBreakerCooldown) return false
+      transition('half-open')
+    }
+
+    // Concurrent senders share the same probe
+    if (!probing) {
+      probing = probe()
+        .catch(() => false)
+        .then((healthy) => {
+          probing = undefined
+          if (healthy) {
+            failures = 0
+            transition('closed')
+          } else {
+            open()
+          }
+          return healthy
+        })
+    }
+    return probing
+  }
+
+  const recordSuccess = (): void => {
+    failures = 0
+    transition('closed')
+  }
+
+  const recordFailure = (): void => {
+    failures += 1
+    if (current !== 'open' && failures >= config.circuitBreakerThreshold) {
+      open()
+    }
+  }
+
+  return {
+    allowRequest,
+    recordSuccess,
+    recordFailure,
+    state: () => current,
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createBeacon } from './client.js'
+import { createMemoryTransport } from './transports.js'
+
+describe('createBeacon', () => {
+  it('should keep events and stats separate per client', async () => {
+    const firstTransport = createMemoryTransport()
+    const secondTransport = createMemoryTransport()
+    const first = createBeacon({
+      sendEnabled: true,
+      transport: firstTransport,
+    })
+    const second = createBeacon({
+      sendEnabled: true,
+      transport: secondTransport,
+      dedupeWindowMs: 60000,
+    })
+
+    first.logInfo('from first')
+    second.logWarn('from second')
+    second.logWarn('from second')
+
+    expect(await first.flush()).toBe(true)
+    expect(await second.flush()).toBe(true)
+    expect(firstTransport.events.map((e) => e.message)).toEqual(['from first'])
+    expect(secondTransport.events.map((e) => e.message)).toEqual([
+      'from second',
+    ])
+    expect(first.stats().suppressedDuplicates).toBe(0)
+    expect(second.stats().suppressedDuplicates).toBe(1)
+
+    await first.shutdown()
+    await second.shutdown()
+    // Pending duplicate summaries are sent on shutdown
+    expect(secondTransport.events.map((e) => e.message)).toEqual([
+      'from second',
+      'from second (repeated 1 times)',
+    ])
+  })
+
+  it('should give each client its own circuit breaker', async () => {
+    // The first tenant's key is rejected, the second one's accepted
+    const mockFetch = vi.fn((_url: string, init: RequestInit) =>
+      Promise.resolve(
+        (init.headers as Record<string, string>)['Authorization'] ===
+          'Bearer second-key'
+          ? new Response('{}', { status: 200 })
+          : new Response('unavailable', { status: 503 })
+      )
+    )
+    vi.stubGlobal('fetch', mockFetch)
+    const shared = {
+      sendEnabled: true,
+      transport: 'http' as const,
+      baseUrl: 'http://collector.test',
+      maxRetries: 0,
+      circuitBreakerThreshold: 1,
+    }
+    try {
+      const first = createBeacon({ ...shared, apiKey: 'first-key' })
+      const second = createBeacon({ ...shared, apiKey: 'second-key' })
+
+      first.logInfo('from first')
+      await first.flush()
+      second.logInfo('from second')
+      await second.flush()
+
+      expect(first.circuitState()).toBe('open')
+      expect(second.circuitState()).toBe('closed')
+      expect(first.stats().dropped.circuit_open).toBe(1)
+      expect(second.stats().dropped.circuit_open).toBe(0)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('should send once a transport or baseUrl is given', async () => {
+    const transport = createMemoryTransport()
+    const beacon = createBeacon({ transport })
+    const disabled = createBeacon({ transport, sendEnabled: false })
+
+    beacon.logInfo('sent')
+    disabled.logInfo('not sent')
+    await beacon.flush()
+    await disabled.flush()
+
+    expect(beacon.config.sendEnabled).toBe(true)
+    expect(
+      createBeacon({ baseUrl: 'http://beacon.test' }).config.sendEnabled
+    ).toBe(true)
+    expect(transport.events.map((e) => e.message)).toEqual(['sent'])
+  })
+
+  it('should apply its own config on top of the defaults', () => {
+    const beacon = createBeacon({ batchSize: 7 })
+
+    expect(beacon.config.batchSize).toBe(7)
+    expect(beacon.config.maxRetries).toBeGreaterThan(0)
+  })
+})
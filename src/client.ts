@@ -0,0 +1,74 @@
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { createLogApi, type LogApi } from './api.js'
+import { createBeaconCircuitBreaker } from './beacon.js'
+import type { CircuitState } from './circuit-breaker.js'
+import {
+  createBatchExporter,
+  waitWithTimeout,
+  type ExporterStats,
+} from './exporter.js'
+import { createDbInstrumentation } from './db.js'
+import { createBeaconFastifyPlugin } from './fastify.js'
+import { createHttpClientInstrumentation } from './http-client.js'
+import type { LogLimiterStats } from './rate-limit.js'
+import { createTransport } from './transports.js'
+
+// ====== BEACON CLIENT ======
+
+export type BeaconClientStats = ExporterStats & LogLimiterStats
+
+export type BeaconClient = Omit<LogApi, 'limiterStats' | 'close'> &
+  ReturnType<typeof createDbInstrumentation> & {
+    config: BeaconConfig
+    plugin: ReturnType<typeof createBeaconFastifyPlugin>
+    instrumentHttpClients: ReturnType<typeof createHttpClientInstrumentation>
+    flush: (timeoutMs?: number) => Promise<boolean>
+    shutdown: (timeoutMs?: number) => Promise<boolean>
+    stats: () => BeaconClientStats
+    circuitState: () => CircuitState
+  }
+
+// Creates an independent client: its own config, transport, circuit breaker,
+// queue, limiter and stats. Unset options fall back to DEFAULT_CONFIG (and so
+// to env vars), except that passing a baseUrl or transport enables sending
+// unless sendEnabled or BEACON_ENABLED=false says otherwise.
+export const createBeacon = (
+  overrides: Partial<BeaconConfig> = {}
+): BeaconClient => {
+  const configured =
+    (overrides.baseUrl !== undefined || overrides.transport !== undefined) &&
+    process.env['BEACON_ENABLED']?.toLowerCase() !== 'false'
+  const config: BeaconConfig = {
+    ...DEFAULT_CONFIG,
+    ...overrides,
+    sendEnabled:
+      overrides.sendEnabled ?? (configured || DEFAULT_CONFIG.sendEnabled),
+  }
+  const breaker = createBeaconCircuitBreaker(config)
+  const exporter = createBatchExporter(config, createTransport(config, breaker))
+  const { limiterStats, close, ...logApi } = createLogApi(
+    exporter.export,
+    config
+  )
+
+  const flush = (timeoutMs = 5000): Promise<boolean> =>
+    waitWithTimeout(exporter.flush(), timeoutMs)
+
+  // Pending duplicate summaries and metrics go out before the exporter drains
+  const shutdown = (timeoutMs = 5000): Promise<boolean> => {
+    close()
+    return waitWithTimeout(exporter.shutdown(), timeoutMs)
+  }
+
+  return {
+    ...logApi,
+    ...createDbInstrumentation(logApi),
+    config,
+    plugin: createBeaconFastifyPlugin({ ...logApi, shutdown }),
+    instrumentHttpClients: createHttpClientInstrumentation(logApi, config),
+    flush,
+    shutdown,
+    stats: () => ({ ...exporter.stats(), ...limiterStats() }),
+    circuitState: breaker.state,
+  }
+}
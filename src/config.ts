@@ -1,22 +1,186 @@
+import { hostname } from 'os'
+import type { LogEvent, ResourceAttributes } from './beacon.js'
+import { debugLogging } from './debug.js'
+import type { OverflowPolicy } from './queue.js'
+import type {
+  RedactionDetector,
+  RedactionMode,
+  RedactionRule,
+} from './redaction.js'
+import type { SamplingRule } from './sampling.js'
+import type { Transport, TransportName } from './transports.js'
+
+const TRANSPORT_NAMES: TransportName[] = ['http', 'stdout', 'file', 'memory']
+
+// BEACON_TRANSPORT=stdout,file selects several transports at once
+const parseTransportNames = (value: string | undefined): TransportName[] => {
+  const names = (value ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is TransportName =>
+      TRANSPORT_NAMES.includes(name as TransportName)
+    )
+  return names.length > 0 ? names : ['http']
+}
+
+// BEACON_HEADERS=x-tenant=acme,x-team=payments adds headers to every request
+const parseHeaders = (value: string | undefined): Record<string, string> =>
+  Object.fromEntries(
+    (value ?? '')
+      .split(',')
+      .map((pair) => pair.split('='))
+      .filter(([key, ...rest]) => key.trim() && rest.length > 0)
+      .map(([key, ...rest]) => [key.trim(), rest.join('=').trim()])
+  )
+
+// Ratios are clamped to [0, 1]. Empty or non-numeric values (BEACON_SAMPLE_RATIO=
+// or 10%) keep every trace, they would otherwise silently drop them all.
+export const parseSampleRatio = (
+  value: string | number | undefined
+): number => {
+  const ratio =
+    typeof value === 'string' && value.trim() === '' ? NaN : Number(value ?? 1)
+  if (!Number.isFinite(ratio)) {
+    if (debugLogging) {
+      console.warn(`⚠️ Invalid sample ratio "${value}", keeping every trace`)
+    }
+    return 1
+  }
+  return Math.min(1, Math.max(0, ratio))
+}
+
 // Configuration for the beacon client - optimized for 5k+ req/min
 export type BeaconConfig = {
   baseUrl: string
   sendEnabled: boolean
+  apiKey?: string // Sent as a Bearer token
+  headers: Record<string, string> // Extra headers on every request
+  resource: ResourceAttributes // Attached to every event
   batchSize: number
   batchTimeout: number
   maxRetries: number
   retryDelay: number
+  maxRetryDelay: number
+  requestTimeout: number
+  retryableStatusCodes: number[]
   enableValidation: boolean
+  onInvalidEvent?: (logEvent: LogEvent, errors: string[]) => void // Called for events rejected by validation
+  maxQueueEvents: number
+  maxQueueBytes: number
+  overflowPolicy: OverflowPolicy
+  spoolDir?: string // Enables the disk spool for undeliverable events
+  maxSpoolBytes: number
+  spoolReplayInterval: number
+  circuitBreakerThreshold: number
+  circuitBreakerCooldown: number
+  transport: TransportName | Transport | Array<TransportName | Transport>
+  logFilePath: string // Used by the file transport
+  logFileMaxBytes: number
+  logFileMaxFiles: number
+  sampleRatio: number // Head sampling: fraction of new traces kept
+  samplingRules: SamplingRule[] // Per-route ratios, first match wins
+  tailSampling: boolean // Buffer traces and decide when they finish
+  tailSampleRatio: number // Fraction of uneventful traces kept by tail sampling
+  tailLatencyThresholdMs: number
+  tailDecisionWait: number
+  tailMaxTraces: number
+  rateLimitPerSeverity: Partial<
+    Record<NonNullable<LogEvent['severity']>, number>
+  > // Log events per second, unset means unlimited
+  rateLimitPerMessage: number // Log events per second for one message, 0 disables
+  dedupeWindowMs: number // Collapse identical messages within this window, 0 disables
+  maxAttributeCount: number // Per event, and per nested object or array
+  maxAttributeDepth: number // Deeper values are replaced by '[Object]' or '[Array]'
+  maxAttributeValueLength: number // Longer strings are truncated
+  maxAttributesBytes: number // Serialized size of all custom_fields of an event
+  spanEndWarningMs: number // Debug mode warns about spans still open after this long
+  normalizeDbQueries: boolean // Replace SQL literals with '?' before sending
+  redaction: boolean // Scrub sensitive values from events before they are sent
+  redactionMode: RedactionMode
+  redactionDetectors: RedactionDetector[] // Built-in detectors applied to free text
+  redactionRules: RedactionRule[] // Custom patterns, applied before the detectors
+  redactionKeys: string[] // custom_fields keys whose values are always redacted
+  metricsInterval: number // Aggregated metrics are sent this often, 0 only on shutdown
+  metricsBuckets: number[] // Default histogram bucket upper bounds
+  maxMetricSeries: number // Label combinations per instrument and interval
+  nPlusOneThreshold: number // Warn when one query runs more often in a request, 0 disables
+  dbTimeShareThreshold: number // Warn when queries take more of the request time, 0 disables
+  dbTimeShareMinRequestMs: number // Requests faster than this are not checked for the share
+  slowQueryThresholdMs: number // Warn about queries slower than this, 0 disables
 }
 
 export const DEFAULT_CONFIG: BeaconConfig = {
   baseUrl: process.env['BEACON_URL'] || 'http://localhost:8085',
   sendEnabled:
-    !!process.env['BEACON_URL'] &&
+    (!!process.env['BEACON_URL'] || !!process.env['BEACON_TRANSPORT']) &&
     process.env['BEACON_ENABLED']?.toLowerCase() !== 'false',
+  apiKey: process.env['BEACON_API_KEY'] || undefined,
+  headers: parseHeaders(process.env['BEACON_HEADERS']),
+  resource: {
+    'service.name':
+      process.env['BEACON_SERVICE_NAME'] || process.env['npm_package_name'],
+    'service.version':
+      process.env['BEACON_SERVICE_VERSION'] ||
+      process.env['npm_package_version'],
+    'deployment.environment':
+      process.env['BEACON_ENVIRONMENT'] || process.env['NODE_ENV'],
+    'host.name': hostname(),
+    'process.pid': process.pid,
+  },
   batchSize: 50, // Optimized for 5k+ req/min performance
   batchTimeout: 5000, // 5 seconds auto-flush as required
   maxRetries: 3,
   retryDelay: 1000, // 1 second initial delay
+  maxRetryDelay: 30000, // Backoff and Retry-After are capped at 30 seconds
+  requestTimeout: 10000, // Abort requests that hang for 10 seconds
+  retryableStatusCodes: [408, 425, 429, 500, 502, 503, 504], // Other errors are permanent
   enableValidation: true, // MANDATORY validation to prevent batch failures
+  maxQueueEvents: 10000, // Upper bound on events waiting to be sent
+  maxQueueBytes: 10 * 1024 * 1024, // 10 MB of serialized events
+  overflowPolicy: 'drop-oldest', // Keep the most recent events during outages
+  spoolDir: process.env['BEACON_SPOOL_DIR'] || undefined,
+  maxSpoolBytes: 100 * 1024 * 1024, // 100 MB on disk before spooled events are dropped
+  spoolReplayInterval: 30000, // Probe /health every 30 seconds while spooled events wait
+  circuitBreakerThreshold: 5, // Consecutive failed requests before sends are short-circuited
+  circuitBreakerCooldown: 10000, // 10 seconds open before probing /health again
+  transport: parseTransportNames(process.env['BEACON_TRANSPORT']),
+  logFilePath: process.env['BEACON_LOG_FILE'] || 'beacon.ndjson',
+  logFileMaxBytes: 50 * 1024 * 1024, // Rotate after 50 MB
+  logFileMaxFiles: 5, // Rotated files kept next to the active one
+  sampleRatio: parseSampleRatio(process.env['BEACON_SAMPLE_RATIO']),
+  samplingRules: [],
+  tailSampling: process.env['BEACON_TAIL_SAMPLING']?.toLowerCase() === 'true',
+  tailSampleRatio: 0.1, // Errors, 5xx and slow traces are always kept
+  tailLatencyThresholdMs: 1000, // Traces slower than 1 second are always kept
+  tailDecisionWait: 30000, // Decide unfinished traces after 30 seconds
+  tailMaxTraces: 1000, // Traces buffered at once before deciding early
+  rateLimitPerSeverity: {},
+  rateLimitPerMessage: 0,
+  dedupeWindowMs: 0,
+  maxAttributeCount: 64,
+  maxAttributeDepth: 5,
+  maxAttributeValueLength: 1024,
+  maxAttributesBytes: 16 * 1024, // 16 KB
+  spanEndWarningMs: 60000,
+  normalizeDbQueries: true, // Keeps customer data out of db_query and messages
+  redaction: process.env['BEACON_REDACTION']?.toLowerCase() !== 'false',
+  redactionMode: 'mask',
+  redactionDetectors: ['email', 'jwt', 'bearer', 'credit_card', 'ipv4'],
+  redactionRules: [],
+  redactionKeys: [
+    'password',
+    'passwd',
+    'secret',
+    'token',
+    'authorization',
+    'cookie',
+    'apikey',
+  ], // Matched case-insensitively against the end of a key, e.g. access_token
+  metricsInterval: 60000,
+  metricsBuckets: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000], // Milliseconds
+  maxMetricSeries: 1000,
+  nPlusOneThreshold: 10,
+  dbTimeShareThreshold: 0.5, // Half of the request spent waiting on the database
+  dbTimeShareMinRequestMs: 100,
+  slowQueryThresholdMs: 1000,
 }
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createDbActivity, detectDbIssues, recordQuery } from './db-activity.js'
+import { createLogApi } from './api.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { LogEvent } from './beacon.js'
+
+const config: BeaconConfig = {
+  ...DEFAULT_CONFIG,
+  nPlusOneThreshold: 3,
+  dbTimeShareThreshold: 0.5,
+  dbTimeShareMinRequestMs: 100,
+  slowQueryThresholdMs: 500,
+}
+
+const query = (normalized: string) => ({
+  normalized,
+  reported: normalized,
+  hash: `hash-of-${normalized}`,
+})
+
+describe('DB Activity', () => {
+  it('should report queries repeated more than nPlusOneThreshold times', () => {
+    const activity = createDbActivity()
+    const perUser = query('SELECT * FROM orders WHERE user_id = ?')
+    for (let i = 0; i < 4; i++) recordQuery(activity, perUser, 2)
+    recordQuery(activity, query('SELECT * FROM users'), 5)
+
+    expect(detectDbIssues(activity, 1000, config)).toEqual([
+      {
+        message:
+          'N+1 query pattern: SELECT * FROM orders WHERE user_id = ? ran 4 times',
+        trace_info: {
+          db_issue: 'n_plus_one',
+          db_query: perUser.reported,
+          db_query_hash: perUser.hash,
+          db_query_count: 4,
+          db_duration_ms: 8,
+          db_trace_query_count: 5,
+          db_trace_duration_ms: 13,
+        },
+      },
+    ])
+  })
+
+  it('should report requests dominated by database time', () => {
+    const activity = createDbActivity()
+    recordQuery(activity, query('SELECT * FROM reports'), 90)
+    recordQuery(activity, query('SELECT * FROM users'), 30)
+
+    const [issue] = detectDbIssues(activity, 200, config)
+
+    expect(issue.message).toBe(
+      'Database time is 60% of request time (120 ms of 200 ms)'
+    )
+    expect(issue.trace_info).toMatchObject({
+      db_issue: 'db_time_share',
+      db_query: 'SELECT * FROM reports',
+      db_query_count: 1,
+    })
+    // Too short to be worth a warning
+    expect(detectDbIssues(activity, 50, config)).toEqual([])
+  })
+
+  it('should report the slowest query above slowQueryThresholdMs', () => {
+    const activity = createDbActivity()
+    recordQuery(activity, query('SELECT * FROM events'), 700)
+    recordQuery(activity, query('SELECT * FROM logs'), 900)
+
+    const issues = detectDbIssues(activity, 10000, config)
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({
+      message: 'Slow query: SELECT * FROM logs took 900 ms',
+      trace_info: { db_issue: 'slow_query', db_duration_ms: 900 },
+    })
+  })
+
+  it('should warn when an HTTP request ends, counting queries of its spans', async () => {
+    const emit = vi.fn()
+    const api = createLogApi(emit, config)
+
+    await api.runInSpan(async () => {
+      api.startHttpTrace({ method: 'GET', path: '/users' })
+      await api.runInSpan('load orders', async () => {
+        for (let id = 1; id <= 4; id++) {
+          api.logDbOperation(`SELECT * FROM orders WHERE user_id = ${id}`, 1)
+        }
+      })
+      api.endHttpTrace({
+        method: 'GET',
+        path: '/users',
+        statusCode: 200,
+        durationMs: 40,
+      })
+    })
+
+    const events = emit.mock.calls.map(([event]) => event as LogEvent)
+    const warning = events.find((event) => event.severity === 'warn')
+    expect(warning).toMatchObject({
+      event_type: 'log',
+      message:
+        'N+1 query pattern: SELECT * FROM orders WHERE user_id = ? ran 4 times',
+      trace_info: { db_issue: 'n_plus_one', db_query_count: 4 },
+    })
+    // Before the completion event, which ends the trace
+    expect(events.indexOf(warning as LogEvent)).toBeLessThan(
+      events.findIndex((event) => event.trace_info?.http_finished)
+    )
+    api.close()
+  })
+
+  it('should keep per-request warnings out of the log limiter', async () => {
+    const emit = vi.fn()
+    const api = createLogApi(emit, {
+      ...config,
+      dedupeWindowMs: 60000,
+      rateLimitPerSeverity: { warn: 1 },
+    })
+
+    const request = () =>
+      api.runInSpan(async () => {
+        api.startHttpTrace({ method: 'GET', path: '/users' })
+        for (let id = 1; id <= 4; id++) {
+          api.logDbOperation(`SELECT * FROM orders WHERE user_id = ${id}`, 1)
+        }
+        api.endHttpTrace({
+          method: 'GET',
+          path: '/users',
+          statusCode: 200,
+          durationMs: 40,
+        })
+      })
+    await request()
+    await request()
+
+    const warnings = emit.mock.calls
+      .map(([event]) => event as LogEvent)
+      .filter((event) => event.trace_info?.db_issue === 'n_plus_one')
+    expect(warnings).toHaveLength(2)
+    expect(warnings[0]?.trace_id).not.toBe(warnings[1]?.trace_id)
+    api.close()
+  })
+})
@@ -0,0 +1,152 @@
+import { type TraceInfo } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+
+// ====== DB ACTIVITY PER TRACE ======
+
+// Distinct normalized queries tracked per trace, later ones only add to totals
+const MAX_TRACKED_QUERIES = 100
+
+type QueryActivity = {
+  query: string // As reported in db_query
+  hash: string
+  count: number
+  totalMs: number
+  maxMs: number
+}
+
+// Queries of one trace, shared by every span store of the trace
+export type DbActivity = {
+  count: number
+  totalMs: number
+  queries: Map<string, QueryActivity> // By normalized query
+}
+
+export type DbIssue = {
+  message: string
+  trace_info: TraceInfo
+}
+
+export const createDbActivity = (): DbActivity => ({
+  count: 0,
+  totalMs: 0,
+  queries: new Map(),
+})
+
+export const recordQuery = (
+  activity: DbActivity,
+  query: { normalized: string; reported: string; hash: string },
+  durationMs: number
+): void => {
+  activity.count += 1
+  activity.totalMs += durationMs
+
+  let entry = activity.queries.get(query.normalized)
+  if (!entry) {
+    if (activity.queries.size >= MAX_TRACKED_QUERIES) return
+    entry = {
+      query: query.reported,
+      hash: query.hash,
+      count: 0,
+      totalMs: 0,
+      maxMs: 0,
+    }
+    activity.queries.set(query.normalized, entry)
+  }
+  entry.count += 1
+  entry.totalMs += durationMs
+  entry.maxMs = Math.max(entry.maxMs, durationMs)
+}
+
+const summarize = (query: string): string =>
+  query.length > 50 ? `${query.substring(0, 50)}...` : query
+
+// N+1 patterns, requests dominated by database time and slow queries, each
+// with the offending query and how often it ran in the trace
+export const detectDbIssues = (
+  activity: DbActivity,
+  requestDurationMs: number,
+  config: BeaconConfig = DEFAULT_CONFIG
+): DbIssue[] => {
+  const issues: DbIssue[] = []
+  const queries = Array.from(activity.queries.values())
+
+  const issue = (
+    type: NonNullable<TraceInfo['db_issue']>,
+    message: string,
+    entry: QueryActivity,
+    durationMs: number
+  ): DbIssue => ({
+    message,
+    trace_info: {
+      db_issue: type,
+      db_query: entry.query,
+      db_query_hash: entry.hash,
+      db_query_count: entry.count,
+      db_duration_ms: Math.round(durationMs),
+      db_trace_query_count: activity.count,
+      db_trace_duration_ms: Math.round(activity.totalMs),
+    },
+  })
+
+  if (config.nPlusOneThreshold > 0) {
+    queries
+      .filter((entry) => entry.count > config.nPlusOneThreshold)
+      .forEach((entry) =>
+        issues.push(
+          issue(
+            'n_plus_one',
+            `N+1 query pattern: ${summarize(entry.query)} ran ${
+              entry.count
+            } times`,
+            entry,
+            entry.totalMs
+          )
+        )
+      )
+  }
+
+  // Short requests are skipped, a 2 ms request with 1.5 ms of queries is fine
+  const share = requestDurationMs > 0 ? activity.totalMs / requestDurationMs : 0
+  if (
+    config.dbTimeShareThreshold > 0 &&
+    requestDurationMs >= config.dbTimeShareMinRequestMs &&
+    share > config.dbTimeShareThreshold &&
+    queries.length > 0
+  ) {
+    const heaviest = queries.reduce((a, b) => (b.totalMs > a.totalMs ? b : a))
+    const percent = Math.round(share * 100)
+    const dbMs = Math.round(activity.totalMs)
+    const requestMs = Math.round(requestDurationMs)
+    issues.push(
+      issue(
+        'db_time_share',
+        `Database time is ${percent}% of request time (${dbMs} ms of ${requestMs} ms)`,
+        heaviest,
+        heaviest.totalMs
+      )
+    )
+  }
+
+  const slowest = queries.reduce<QueryActivity | undefined>(
+    (a, b) => (!a || b.maxMs > a.maxMs ? b : a),
+    undefined
+  )
+  if (
+    config.slowQueryThresholdMs > 0 &&
+    slowest &&
+    slowest.maxMs > config.slowQueryThresholdMs
+  ) {
+    issues.push(
+      issue(
+        'slow_query',
+        `Slow query: ${summarize(slowest.query)} took ${Math.round(
+          slowest.maxMs
+        )} ms`,
+        slowest,
+        slowest.maxMs
+      )
+    )
+  }
+
+  return issues
+}
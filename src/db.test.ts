@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { EventEmitter } from 'events'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createDbInstrumentation, type PrismaExtension } from './db.js'
+import { executionContext } from './execution-context.js'
+
+const logDbOperation = vi.fn()
+const { instrumentPg, instrumentMysql2, instrumentKnex, instrumentPrisma } =
+  createDbInstrumentation({ logDbOperation })
+
+type Result = { rowCount: number; rows: unknown[] }
+
+// node-postgres shaped fakes: pool.query checks out a client internally
+const createFakePgClient = (processID: number) => ({
+  processID,
+  query: vi.fn(async (text: string): Promise<Result> => {
+    if (text.startsWith('INSERT INTO dupes')) {
+      throw Object.assign(new Error('duplicate key'), { code: '23505' })
+    }
+    return { rowCount: text.startsWith('SELECT') ? 2 : 1, rows: [] }
+  }),
+  release: vi.fn(),
+})
+
+const createFakePgPool = () => {
+  const client = createFakePgClient(4242)
+  return {
+    connect: vi.fn(async () => client),
+    async query(text: string) {
+      const checkedOut = await this.connect()
+      return checkedOut.query(text)
+    },
+  }
+}
+
+const loggedQueries = () =>
+  logDbOperation.mock.calls.map(([query, , rows, metadata]) => ({
+    query,
+    rows,
+    ...metadata,
+  }))
+
+describe('Database Instrumentation', () => {
+  beforeEach(() => {
+    logDbOperation.mockClear()
+  })
+
+  describe('pg', () => {
+    it('should log pool queries once with rows and timing', async () => {
+      const pool = instrumentPg(createFakePgPool(), { database: 'app' })
+
+      await pool.query('SELECT * FROM users')
+
+      expect(logDbOperation).toHaveBeenCalledTimes(1)
+      expect(logDbOperation).toHaveBeenCalledWith(
+        'SELECT * FROM users',
+        expect.any(Number),
+        2,
+        expect.objectContaining({ database: 'app' })
+      )
+    })
+
+    it('should track transactions on checked-out clients', async () => {
+      const pool = instrumentPg(createFakePgPool())
+      const client = await pool.connect()
+
+      await client.query('BEGIN')
+      await client.query('UPDATE accounts SET balance = 0')
+      await expect(
+        client.query('INSERT INTO dupes VALUES (1)')
+      ).rejects.toThrow()
+      await client.query('ROLLBACK')
+      await client.query('SELECT 1')
+
+      const logged = loggedQueries()
+      const transactionId = logged[0]?.transactionId
+      expect(transactionId).toBeDefined()
+      expect(logged.map((entry) => entry.transactionId)).toEqual([
+        transactionId,
+        transactionId,
+        transactionId,
+        transactionId,
+        undefined,
+      ])
+      expect(logged.every((entry) => entry.connectionId === '4242')).toBe(true)
+      expect(logged[2]).toMatchObject({
+        errorCode: '23505',
+        errorMessage: 'duplicate key',
+      })
+    })
+
+    it('should log within the trace context of the caller', async () => {
+      const pool = instrumentPg(createFakePgPool())
+      logDbOperation.mockImplementation(() => {
+        expect(executionContext.getStore()?.traceId).toBe('db-trace')
+      })
+
+      await executionContext.run(
+        { traceId: 'db-trace', spanId: 'db-span', logCount: 0 },
+        () => pool.query('SELECT 1')
+      )
+
+      expect(logDbOperation).toHaveBeenCalledTimes(1)
+      logDbOperation.mockReset()
+    })
+  })
+
+  describe('mysql2', () => {
+    it('should handle the callback API and affectedRows', async () => {
+      const pool = instrumentMysql2({
+        threadId: 7,
+        query(
+          sql: string,
+          callback: (error: unknown, results: unknown, fields: unknown) => void
+        ) {
+          setImmediate(() =>
+            sql.startsWith('DELETE')
+              ? callback(null, { affectedRows: 3 }, undefined)
+              : callback(
+                  Object.assign(new Error('no table'), {
+                    code: 'ER_NO_SUCH_TABLE',
+                  }),
+                  undefined,
+                  undefined
+                )
+          )
+        },
+      })
+
+      await new Promise((resolve) =>
+        pool.query('DELETE FROM sessions', resolve)
+      )
+      await new Promise((resolve) => pool.query('SELECT * FROM gone', resolve))
+
+      expect(loggedQueries()).toMatchObject([
+        { query: 'DELETE FROM sessions', rows: 3, connectionId: '7' },
+        { query: 'SELECT * FROM gone', errorCode: 'ER_NO_SUCH_TABLE' },
+      ])
+    })
+
+    it('should count rows from the promise API', async () => {
+      const pool = instrumentMysql2({
+        execute: vi.fn().mockResolvedValue([[{ id: 1 }, { id: 2 }], []]),
+      })
+
+      await pool.execute('SELECT id FROM orders WHERE user_id = ?', [1])
+
+      expect(loggedQueries()[0]).toMatchObject({ rows: 2 })
+    })
+  })
+
+  describe('knex', () => {
+    it('should log queries from knex events', () => {
+      const knex = new EventEmitter()
+      const uninstrument = instrumentKnex(knex)
+      const query = {
+        __knexQueryUid: 'q1',
+        __knexUid: 'conn1',
+        __knexTxId: 'trx1',
+        sql: 'update "users" set "name" = ?',
+      }
+
+      knex.emit('query', query)
+      knex.emit('query-response', 1, query)
+      knex.emit('query', { ...query, __knexQueryUid: 'q2' })
+      knex.emit('query-error', new Error('boom'), {
+        ...query,
+        __knexQueryUid: 'q2',
+      })
+      uninstrument()
+      knex.emit('query', { ...query, __knexQueryUid: 'q3' })
+
+      expect(loggedQueries()).toMatchObject([
+        {
+          rows: 1,
+          connectionId: 'conn1',
+          transactionId: 'trx1',
+        },
+        { errorCode: 'ERROR', errorMessage: 'boom' },
+      ])
+      expect(knex.listenerCount('query')).toBe(0)
+    })
+  })
+
+  describe('Prisma', () => {
+    it('should log model operations through the extension', async () => {
+      const prisma = {
+        $extends: (extension: PrismaExtension) => extension,
+      }
+      const extension = instrumentPrisma(prisma)
+      const { $allOperations } = extension.query
+
+      await $allOperations({
+        model: 'User',
+        operation: 'updateMany',
+        args: {},
+        query: async () => ({ count: 4 }),
+      })
+
+      expect(loggedQueries()[0]).toMatchObject({
+        query: 'User.updateMany',
+        rows: 4,
+        queryType: 'UPDATE',
+        tableName: 'User',
+      })
+    })
+
+    it('should not report a count result as rows affected', async () => {
+      const prisma = {
+        $extends: (extension: PrismaExtension) => extension,
+      }
+      const { $allOperations } = instrumentPrisma(prisma).query
+
+      await $allOperations({
+        model: 'User',
+        operation: 'count',
+        args: {},
+        query: async () => 1000000,
+      })
+
+      expect(loggedQueries()[0]).toMatchObject({
+        query: 'User.count',
+        rows: 1,
+        queryType: 'SELECT',
+      })
+    })
+
+    // Query type and table are derived from the SQL by logDbOperation
+    it('should log raw queries with their SQL', async () => {
+      const prisma = {
+        $extends: (extension: PrismaExtension) => extension,
+      }
+      const { $allOperations } = instrumentPrisma(prisma).query
+
+      await $allOperations({
+        operation: '$queryRaw',
+        args: { strings: ['SELECT * FROM orders WHERE id = ', ''] },
+        query: async () => [{ id: 1 }],
+      })
+      await $allOperations({
+        operation: '$executeRawUnsafe',
+        args: ['DELETE FROM sessions WHERE expired'],
+        query: async () => 3,
+      })
+
+      expect(loggedQueries()).toMatchObject([
+        {
+          query: 'SELECT * FROM orders WHERE id = ?',
+          rows: 1,
+        },
+        {
+          query: 'DELETE FROM sessions WHERE expired',
+          rows: 3,
+        },
+      ])
+    })
+  })
+})
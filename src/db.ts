@@ -0,0 +1,454 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomUUID } from 'crypto'
+import { logDbOperation, type DbOperationMetadata, type LogApi } from './api.js'
+import { executionContext } from './execution-context.js'
+
+// ====== DATABASE DRIVER INSTRUMENTATION ======
+
+export type DbInstrumentationOptions = {
+  database?: string // Reported as db_database
+}
+
+type QueryOutcome = {
+  rowsAffected?: number
+  error?: unknown
+}
+
+// Transaction state of one connection (or of a pool used without checkout)
+type ConnectionState = {
+  connectionId: string
+  transactionId?: string
+}
+
+// The parts of the drivers we touch, so fakes can stand in for them in tests
+type Queryable = Record<string, unknown>
+
+// Knex extends EventEmitter, whose listeners take any[]; with unknown[] or
+// never[] a real instance would not be assignable, even as a method
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Listener = (...args: any[]) => void
+
+export type KnexLike = {
+  on(event: string, listener: Listener): unknown
+  off?(event: string, listener: Listener): unknown
+  removeListener?(event: string, listener: Listener): unknown
+}
+
+export type PrismaLike<T> = {
+  $extends: (extension: PrismaExtension) => T
+}
+
+// The top-level hook sees model operations and raw queries alike
+export type PrismaExtension = {
+  name: string
+  query: {
+    $allOperations: (params: {
+      model?: string
+      operation: string
+      args: unknown
+      query: (args: unknown) => Promise<unknown>
+    }) => Promise<unknown>
+  }
+}
+
+const BEGIN_REGEX = /^\s*(BEGIN|START\s+TRANSACTION)\b/i
+const END_REGEX = /^\s*(COMMIT|END|ROLLBACK)\b(?!\s+TO\b)/i
+// Drivers report failures with a code (SQLSTATE, ER_*, P2002...) and a message
+const errorDetails = (
+  error: unknown
+): Pick<DbOperationMetadata, 'errorCode' | 'errorMessage'> => {
+  const details = (error ?? {}) as { code?: unknown; message?: unknown }
+  return {
+    errorCode: details.code !== undefined ? String(details.code) : 'ERROR',
+    errorMessage:
+      typeof details.message === 'string' ? details.message : String(error),
+  }
+}
+
+const queryText = (arg: unknown): string | undefined => {
+  if (typeof arg === 'string') return arg
+  const text = (arg as { text?: unknown; sql?: unknown } | undefined)?.text
+  const sql = (arg as { sql?: unknown } | undefined)?.sql
+  return typeof text === 'string'
+    ? text
+    : typeof sql === 'string'
+    ? sql
+    : undefined
+}
+
+// Set while a driver runs an instrumented call, so the queries a pool issues
+// on its own connections are not logged a second time
+const driverCall = new AsyncLocalStorage<boolean>()
+
+const isThenable = (value: unknown): value is Promise<unknown> =>
+  !!value && typeof (value as Promise<unknown>).then === 'function'
+
+// Builds the wrappers around one client, so queries are logged through its
+// exporter with its config
+export const createDbInstrumentation = (
+  client: Pick<LogApi, 'logDbOperation'>
+) => {
+  const states = new WeakMap<object, ConnectionState>()
+  const instrumented = new WeakSet<object>()
+  let connections = 0
+
+  const stateFor = (connection: object, id?: unknown): ConnectionState => {
+    let state = states.get(connection)
+    if (!state) {
+      state = { connectionId: '' }
+      states.set(connection, state)
+    }
+    // pg learns its processID and mysql2 its threadId only once connected
+    state.connectionId =
+      id !== undefined && id !== null
+        ? String(id)
+        : state.connectionId || `conn-${++connections}`
+    return state
+  }
+
+  // BEGIN opens a transaction id, COMMIT/ROLLBACK still carry it and close it
+  const transactionFor = (
+    state: ConnectionState,
+    query: string
+  ): string | undefined => {
+    if (BEGIN_REGEX.test(query)) {
+      state.transactionId = randomUUID()
+      return state.transactionId
+    }
+    const transactionId = state.transactionId
+    if (END_REGEX.test(query)) {
+      state.transactionId = undefined
+    }
+    return transactionId
+  }
+
+  const record = (
+    query: string,
+    startedAt: bigint,
+    outcome: QueryOutcome,
+    metadata: DbOperationMetadata
+  ): void => {
+    const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6
+    // Query type and tables are inferred by logDbOperation
+    client.logDbOperation(query, durationMs, outcome.rowsAffected, {
+      ...metadata,
+      ...('error' in outcome ? errorDetails(outcome.error) : {}),
+    })
+  }
+
+  // Wraps a query method that either takes a trailing callback or returns a
+  // promise. The trace context of the caller is restored for the log, since
+  // pooled drivers often call back from another connection's context.
+  const wrapQuery = (
+    target: Queryable,
+    method: string,
+    connectionId: () => unknown,
+    rowsOf: (result: unknown, viaCallback: boolean) => number | undefined,
+    options: DbInstrumentationOptions
+  ): void => {
+    const original = target[method]
+    if (typeof original !== 'function') return
+
+    target[method] = function (this: unknown, ...args: unknown[]) {
+      const query = queryText(args[0])
+      if (query === undefined || driverCall.getStore()) {
+        return original.apply(this, args)
+      }
+
+      const state = stateFor(target, connectionId())
+      const metadata: DbOperationMetadata = {
+        database: options.database,
+        connectionId: state.connectionId,
+        transactionId: transactionFor(state, query),
+      }
+      const store = executionContext.getStore()
+      const startedAt = process.hrtime.bigint()
+      const done = (outcome: QueryOutcome): void => {
+        const log = () => record(query, startedAt, outcome, metadata)
+        if (store) executionContext.run(store, log)
+        else log()
+      }
+
+      const callback = args[args.length - 1]
+      if (typeof callback === 'function') {
+        args[args.length - 1] = function (
+          this: unknown,
+          error: unknown,
+          ...results: unknown[]
+        ) {
+          done(error ? { error } : { rowsAffected: rowsOf(results[0], true) })
+          // Queries issued from the callback are the caller's own again
+          return driverCall.exit(() => callback.call(this, error, ...results))
+        }
+        return driverCall.run(true, () => original.apply(this, args))
+      }
+
+      let returned: unknown
+      try {
+        returned = driverCall.run(true, () => original.apply(this, args))
+      } catch (error) {
+        done({ error })
+        throw error
+      }
+      // Streaming queries and submittables are passed through untimed
+      if (!isThenable(returned)) return returned
+      return returned.then(
+        (result) => {
+          done({ rowsAffected: rowsOf(result, false) })
+          return result
+        },
+        (error: unknown) => {
+          done({ error })
+          throw error
+        }
+      )
+    }
+  }
+
+  // Wraps pool.connect()/getConnection() so checked-out connections are traced
+  const wrapCheckout = (
+    target: Queryable,
+    method: string,
+    instrumentConnection: (connection: Queryable) => void
+  ): void => {
+    const original = target[method]
+    if (typeof original !== 'function') return
+
+    target[method] = function (this: unknown, ...args: unknown[]) {
+      const callback = args[args.length - 1]
+      if (typeof callback === 'function') {
+        args[args.length - 1] = function (
+          this: unknown,
+          error: unknown,
+          connection: Queryable,
+          ...rest: unknown[]
+        ) {
+          if (!error && connection) instrumentConnection(connection)
+          return callback.call(this, error, connection, ...rest)
+        }
+        return original.apply(this, args)
+      }
+      const returned = original.apply(this, args)
+      return isThenable(returned)
+        ? returned.then((connection) => {
+            instrumentConnection(connection as Queryable)
+            return connection
+          })
+        : returned
+    }
+  }
+
+  const pgRows = (result: unknown): number | undefined => {
+    const { rowCount, rows } = (result ?? {}) as {
+      rowCount?: number | null
+      rows?: unknown[]
+    }
+    return rowCount ?? rows?.length
+  }
+
+  // node-postgres Pool or Client
+  const instrumentPg = <T extends object>(
+    pool: T,
+    options: DbInstrumentationOptions = {}
+  ): T => {
+    const target = pool as Queryable
+    if (instrumented.has(pool)) return pool
+    instrumented.add(pool)
+
+    wrapQuery(target, 'query', () => target['processID'], pgRows, options)
+    wrapCheckout(target, 'connect', (connection) =>
+      instrumentPg(connection, options)
+    )
+    return pool
+  }
+
+  // Writes resolve to a ResultSetHeader, reads to rows. The promise API
+  // resolves to [result, fields], the callback API passes them separately.
+  const mysqlRows = (
+    result: unknown,
+    viaCallback: boolean
+  ): number | undefined => {
+    const value = viaCallback ? result : (result as unknown[] | undefined)?.[0]
+    if (Array.isArray(value)) return value.length
+    return (value as { affectedRows?: number } | undefined)?.affectedRows
+  }
+
+  // mysql2 Pool, PoolConnection or Connection, callback or promise API
+  const instrumentMysql2 = <T extends object>(
+    pool: T,
+    options: DbInstrumentationOptions = {}
+  ): T => {
+    const target = pool as Queryable
+    if (instrumented.has(pool)) return pool
+    instrumented.add(pool)
+
+    const threadId = () =>
+      target['threadId'] ??
+      (target['connection'] as Queryable | undefined)?.['threadId']
+    wrapQuery(target, 'query', threadId, mysqlRows, options)
+    wrapQuery(target, 'execute', threadId, mysqlRows, options)
+    wrapCheckout(target, 'getConnection', (connection) =>
+      instrumentMysql2(connection, options)
+    )
+    return pool
+  }
+
+  type KnexQuery = {
+    __knexQueryUid?: string
+    __knexUid?: string
+    __knexTxId?: string
+    sql?: string
+  }
+
+  // Knex reports every query through events; transactions carry __knexTxId.
+  // Returns a function that removes the listeners again.
+  const instrumentKnex = (
+    knex: KnexLike,
+    options: DbInstrumentationOptions = {}
+  ): (() => void) => {
+    const pending = new Map<
+      string,
+      { startedAt: bigint; store: ReturnType<typeof executionContext.getStore> }
+    >()
+
+    const finish = (query: KnexQuery, outcome: QueryOutcome): void => {
+      const started = query.__knexQueryUid
+        ? pending.get(query.__knexQueryUid)
+        : undefined
+      if (!started || !query.sql) return
+      pending.delete(query.__knexQueryUid as string)
+
+      const log = () =>
+        record(query.sql as string, started.startedAt, outcome, {
+          database: options.database,
+          connectionId: query.__knexUid,
+          transactionId: query.__knexTxId,
+        })
+      if (started.store) executionContext.run(started.store, log)
+      else log()
+    }
+
+    const onQuery = (query: KnexQuery): void => {
+      if (!query.__knexQueryUid) return
+      pending.set(query.__knexQueryUid, {
+        startedAt: process.hrtime.bigint(),
+        store: executionContext.getStore(),
+      })
+    }
+    const onResponse = (response: unknown, query: KnexQuery): void => {
+      finish(query, {
+        rowsAffected: Array.isArray(response)
+          ? response.length
+          : typeof response === 'number'
+          ? response
+          : undefined,
+      })
+    }
+    const onError = (error: unknown, query: KnexQuery): void => {
+      finish(query, { error })
+    }
+
+    knex.on('query', onQuery)
+    knex.on('query-response', onResponse)
+    knex.on('query-error', onError)
+
+    return () => {
+      const off = (knex.off ?? knex.removeListener)?.bind(knex)
+      off?.('query', onQuery)
+      off?.('query-response', onResponse)
+      off?.('query-error', onError)
+      pending.clear()
+    }
+  }
+
+  const PRISMA_QUERY_TYPES: Array<[RegExp, string]> = [
+    [/^(find|aggregate|groupBy|count)/, 'SELECT'],
+    [/^(create|upsert)/, 'INSERT'],
+    [/^update/, 'UPDATE'],
+    [/^delete/, 'DELETE'],
+  ]
+
+  // SQL of $queryRaw/$executeRaw (a Sql object) and of their Unsafe variants
+  // (a string as the first argument)
+  const rawSql = (args: unknown): string | undefined => {
+    const sql = Array.isArray(args) ? args[0] : args
+    if (typeof sql === 'string') return sql
+    const { sql: text, strings } = (sql ?? {}) as {
+      sql?: unknown
+      strings?: unknown
+    }
+    if (typeof text === 'string') return text
+    if (Array.isArray(strings)) return strings.join('?')
+    return undefined
+  }
+
+  // Prisma client extension; use prisma.$extends(prismaExtension) or
+  // instrumentPrisma(prisma). Raw queries have no model and are logged with
+  // their SQL, so query type and table come from the statement itself.
+  const prismaExtension: PrismaExtension = {
+    name: 'beacon',
+    query: {
+      $allOperations: async ({ model, operation, args, query }) => {
+        const sql = model ? undefined : rawSql(args)
+        const statement = sql ?? `${model ?? 'prisma'}.${operation}`
+        const metadata: DbOperationMetadata = sql
+          ? {}
+          : {
+              queryType: PRISMA_QUERY_TYPES.find(([pattern]) =>
+                pattern.test(operation)
+              )?.[1],
+              tableName: model,
+            }
+        const startedAt = process.hrtime.bigint()
+        const done = (outcome: QueryOutcome): void => {
+          const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6
+          client.logDbOperation(statement, durationMs, outcome.rowsAffected, {
+            ...metadata,
+            ...('error' in outcome ? errorDetails(outcome.error) : {}),
+          })
+        }
+
+        try {
+          const result = await query(args)
+          const { count } = (result ?? {}) as { count?: unknown }
+          // model.count() resolves a number too, but that is not rows affected
+          const executed = !model && operation.startsWith('$executeRaw')
+          done({
+            rowsAffected: Array.isArray(result)
+              ? result.length
+              : executed && typeof result === 'number'
+              ? result
+              : typeof count === 'number'
+              ? count
+              : result
+              ? 1
+              : 0,
+          })
+          return result
+        } catch (error) {
+          done({ error })
+          throw error
+        }
+      },
+    },
+  }
+
+  const instrumentPrisma = <T>(prisma: PrismaLike<T>): T =>
+    prisma.$extends(prismaExtension)
+
+  return {
+    instrumentPg,
+    instrumentMysql2,
+    instrumentKnex,
+    instrumentPrisma,
+    prismaExtension,
+  }
+}
+
+export const {
+  instrumentPg,
+  instrumentMysql2,
+  instrumentKnex,
+  instrumentPrisma,
+  prismaExtension,
+} = createDbInstrumentation({ logDbOperation })
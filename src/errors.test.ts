@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { captureError, parseStack } from './errors.js'
+
+const throwFrom = (message: string): Error => {
+  try {
+    throw new Error(message)
+  } catch (err) {
+    return err as Error
+  }
+}
+
+describe('Exception Capture', () => {
+  it('should parse V8 stack frames', () => {
+    const frames = parseStack(
+      [
+        'TypeError: boom',
+        '    at handler (/app/src/routes.ts:10:5)',
+        '    at async Promise.all (index 0)',
+        '    at /app/src/server.ts:20:3',
+      ].join('\n')
+    )
+
+    expect(frames).toEqual([
+      { function: 'handler', file: '/app/src/routes.ts', line: 10, column: 5 },
+      { file: '/app/src/server.ts', line: 20, column: 3 },
+    ])
+  })
+
+  it('should capture type, properties and the cause chain', () => {
+    const root = Object.assign(new Error('connect ECONNREFUSED'), {
+      code: 'ECONNREFUSED',
+      port: 5432n,
+    })
+    const err = new TypeError('Query failed', { cause: root })
+
+    const info = captureError(err)
+
+    expect(info.type).toBe('TypeError')
+    expect(info.message).toBe('Query failed')
+    expect(info.frames[0]?.file).toContain('errors.test.ts')
+    expect(info.cause).toMatchObject({
+      type: 'Error',
+      message: 'connect ECONNREFUSED',
+      properties: { code: 'ECONNREFUSED', port: '5432' },
+    })
+    expect(info.fingerprint).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('should capture AggregateError members and stop at cycles', () => {
+    const looping = new Error('loop')
+    looping.cause = looping
+    const err = new AggregateError([looping, 'plain string'], 'All failed')
+
+    const info = captureError(err)
+
+    expect(info.errors).toHaveLength(2)
+    expect(info.errors?.[0]).toMatchObject({ message: 'loop' })
+    expect(info.errors?.[0]?.cause).toBeUndefined()
+    expect(info.errors?.[1]).toEqual({
+      type: 'string',
+      message: 'plain string',
+      frames: [],
+    })
+  })
+
+  it('should give the same fingerprint to errors from the same place', () => {
+    const fingerprints = [1, 2].map(
+      (id) => captureError(throwFrom(`User ${id} not found`)).fingerprint
+    )
+    const elsewhere = captureError(new Error('User 1 not found')).fingerprint
+
+    expect(fingerprints[0]).toBe(fingerprints[1])
+    expect(elsewhere).not.toBe(fingerprints[0])
+  })
+
+  it('should fingerprint stackless values by their masked message', () => {
+    expect(captureError('order 123 failed').fingerprint).toBe(
+      captureError('order 456 failed').fingerprint
+    )
+  })
+})
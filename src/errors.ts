@@ -0,0 +1,142 @@
+import { createHash } from 'crypto'
+import { serializeAttributes } from './attributes.js'
+import { ErrorInfo, StackFrame } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+
+// ====== EXCEPTION CAPTURE ======
+
+const MAX_STACK_LENGTH = 8192
+const MAX_FRAMES = 50
+const MAX_CHAIN_DEPTH = 8 // Nested causes and aggregate members
+const FINGERPRINT_FRAMES = 5
+
+// Handled separately or already part of ErrorInfo
+const RESERVED_PROPERTIES = new Set([
+  'name',
+  'message',
+  'stack',
+  'cause',
+  'errors',
+])
+
+// "    at fn (file:line:col)" or "    at file:line:col"
+const FRAME_REGEX =
+  /^\s*at (?:async )?(?:(.+?) \((.+?):(\d+):(\d+)\)|(.+?):(\d+):(\d+))$/
+
+// Parses V8 stack trace lines, skipping the message and anything unrecognized
+export const parseStack = (stack: string | undefined): StackFrame[] => {
+  if (!stack) return []
+
+  const frames: StackFrame[] = []
+  for (const line of stack.split('\n')) {
+    const match = FRAME_REGEX.exec(line)
+    if (!match) continue
+    frames.push(
+      match[2]
+        ? {
+            function: match[1],
+            file: match[2],
+            line: Number(match[3]),
+            column: Number(match[4]),
+          }
+        : {
+            file: match[5],
+            line: Number(match[6]),
+            column: Number(match[7]),
+          }
+    )
+    if (frames.length >= MAX_FRAMES) break
+  }
+  return frames
+}
+
+const isAppFrame = (frame: StackFrame): boolean =>
+  !!frame.file &&
+  !frame.file.startsWith('node:') &&
+  !frame.file.includes('node_modules')
+
+// Absolute paths differ between hosts and deploys, the project-relative part doesn't
+const normalizeFile = (file: string): string =>
+  file.replace(/^file:\/\//, '').replace(process.cwd(), '')
+
+// Groups occurrences of the same error: its type plus the top application
+// frames without line numbers, so unrelated edits to a file keep the group.
+// Errors without a usable stack fall back to the message with ids masked.
+export const fingerprintError = (info: ErrorInfo): string => {
+  const appFrames = info.frames.filter(isAppFrame)
+  const frames = (appFrames.length > 0 ? appFrames : info.frames).slice(
+    0,
+    FINGERPRINT_FRAMES
+  )
+  const parts =
+    frames.length > 0
+      ? frames.map(
+          (frame) =>
+            `${frame.function ?? '<anonymous>'}@${normalizeFile(
+              frame.file ?? ''
+            )}`
+        )
+      : [info.message.replace(/\b[0-9a-f-]*\d[0-9a-f-]*\b/gi, '?')]
+
+  return createHash('sha1')
+    .update([info.type, ...parts].join('\n'))
+    .digest('hex')
+    .substring(0, 16)
+}
+
+const describeError = (
+  err: unknown,
+  depth: number,
+  seen: Set<unknown>,
+  config: BeaconConfig
+): ErrorInfo => {
+  if (!(err instanceof Error)) {
+    // `throw 'boom'` and rejected promises can carry anything
+    return {
+      type: err === null ? 'null' : typeof err,
+      message: typeof err === 'string' ? err : String(err),
+      frames: [],
+    }
+  }
+  seen.add(err)
+
+  const info: ErrorInfo = {
+    type: err.name || err.constructor?.name || 'Error',
+    message: err.message,
+    stack:
+      err.stack && err.stack.length > MAX_STACK_LENGTH
+        ? err.stack.substring(0, MAX_STACK_LENGTH - 3) + '...'
+        : err.stack,
+    frames: parseStack(err.stack),
+  }
+
+  const ownProperties = Object.fromEntries(
+    Object.entries(err).filter(([key]) => !RESERVED_PROPERTIES.has(key))
+  )
+  info.properties = serializeAttributes(ownProperties, config)
+
+  // Cycles (an error that is its own cause) end the chain
+  const follow = (next: unknown): ErrorInfo | undefined =>
+    depth + 1 < MAX_CHAIN_DEPTH && !seen.has(next)
+      ? describeError(next, depth + 1, seen, config)
+      : undefined
+
+  if (err.cause !== undefined) {
+    info.cause = follow(err.cause)
+  }
+  if (err instanceof AggregateError && Array.isArray(err.errors)) {
+    info.errors = err.errors
+      .map(follow)
+      .filter((member): member is ErrorInfo => member !== undefined)
+  }
+  return info
+}
+
+// Captures anything that was thrown into the ErrorInfo sent on LogEvent.error
+export const captureError = (
+  err: unknown,
+  config: BeaconConfig = DEFAULT_CONFIG
+): ErrorInfo => {
+  const info = describeError(err, 0, new Set(), config)
+  return { ...info, fingerprint: fingerprintError(info) }
+}
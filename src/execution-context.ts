@@ -1,8 +1,12 @@
 import { AsyncLocalStorage } from 'async_hooks'
+import type { DbActivity } from './db-activity.js'
 
 export const executionContext = new AsyncLocalStorage<{
   traceId: string
   spanId: string
   logCount: number
   parentSpanId?: string
+  sampled?: boolean // Head sampling decision, shared by the whole trace
+  traceState?: string // W3C tracestate received with the trace
+  dbActivity?: DbActivity // Queries of the HTTP request, checked by endHttpTrace
 }>()
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createBatchExporter } from './exporter.js'
+import { LogEvent } from './beacon.js'
+import { configWith, event } from '../test/fixtures.js'
+
+const config = configWith({
+  sendEnabled: true,
+  batchSize: 3,
+  batchTimeout: 5000,
+})
+
+describe('Batch Exporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should flush once batchSize events are buffered', async () => {
+    const send = vi.fn().mockResolvedValue(undefined)
+    const exporter = createBatchExporter(config, { name: 'mock', send })
+
+    exporter.export(event('one', { trace_id: 'test-trace', order_in_trace: 1 }))
+    exporter.export(event('two', { trace_id: 'test-trace', order_in_trace: 2 }))
+    expect(send).not.toHaveBeenCalled()
+
+    exporter.export(
+      event('three', { trace_id: 'test-trace', order_in_trace: 3 })
+    )
+    await exporter.flush()
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(send.mock.calls[0][0].map((e: LogEvent) => e.message)).toEqual([
+      'one',
+      'two',
+      'three',
+    ])
+  })
+
+  it('should flush after batchTimeout when the batch is not full', async () => {
+    const send = vi.fn().mockResolvedValue(undefined)
+    const exporter = createBatchExporter(config, { name: 'mock', send })
+
+    exporter.export(event('lonely'))
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(send).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(send.mock.calls[0][0]).toHaveLength(1)
+  })
+
+  it('should send batches sequentially to keep trace order', async () => {
+    const sent: string[] = []
+    let releaseFirst: () => void = () => {}
+    const send = vi
+      .fn()
+      .mockImplementationOnce(
+        (batch: LogEvent[]) =>
+          new Promise<void>((resolve) => {
+            releaseFirst = () => {
+              sent.push(...batch.map((e) => e.message))
+              resolve()
+            }
+          })
+      )
+      .mockImplementation(async (batch: LogEvent[]) => {
+        sent.push(...batch.map((e) => e.message))
+      })
+    const exporter = createBatchExporter(config, { name: 'mock', send })
+
+    ;['1', '2', '3', '4', '5', '6'].forEach((m) => exporter.export(event(m)))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(send).toHaveBeenCalledTimes(1) // Second batch waits for the first
+
+    releaseFirst()
+    await exporter.flush()
+
+    expect(sent).toEqual(['1', '2', '3', '4', '5', '6'])
+  })
+
+  it('should attach the configured resource to every event', async () => {
+    const send = vi.fn().mockResolvedValue(undefined)
+    const resource = { 'service.name': 'checkout', 'process.pid': 42 }
+    const exporter = createBatchExporter(
+      { ...config, resource },
+      { name: 'mock', send }
+    )
+
+    exporter.export(event('with resource'))
+    await exporter.flush()
+
+    expect(send.mock.calls[0][0][0]).toMatchObject({
+      message: 'with resource',
+      resource,
+    })
+  })
+
+  it('should repair fixable events and reject invalid ones', async () => {
+    const send = vi.fn().mockResolvedValue(undefined)
+    const onInvalidEvent = vi.fn()
+    const exporter = createBatchExporter(
+      { ...config, enableValidation: true, onInvalidEvent },
+      { name: 'mock', send }
+    )
+
+    exporter.export({
+      ...event('repairable'),
+      trace_info: { http_remote_ip: 'invalid-ip' },
+    })
+    exporter.export({ ...event(''), severity: 'info' })
+    await exporter.flush()
+
+    expect(send.mock.calls[0][0]).toHaveLength(1)
+    expect(send.mock.calls[0][0][0].trace_info.http_remote_ip).toBeUndefined()
+    expect(onInvalidEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ message: '' }),
+      ['message is required and must be a string']
+    )
+    expect(exporter.stats()).toMatchObject({
+      repairedEvents: 1,
+      dropped: expect.objectContaining({ invalid_event: 1 }),
+    })
+  })
+
+  it('should count batches of a transport that throws synchronously', async () => {
+    const send = vi.fn(() => {
+      throw new Error('not a promise')
+    })
+    const exporter = createBatchExporter(config, { name: 'throwing', send })
+
+    // A full batch is sent from export() without anyone awaiting it
+    ;['1', '2', '3', '4'].forEach((m) => exporter.export(event(m)))
+    await exporter.flush()
+
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(exporter.stats().dropped.send_failed).toBe(4)
+  })
+
+  it('should drop events when sending is disabled', async () => {
+    const send = vi.fn().mockResolvedValue(undefined)
+    const exporter = createBatchExporter(
+      { ...config, sendEnabled: false },
+      { name: 'mock', send }
+    )
+
+    exporter.export(event('ignored'))
+    await exporter.flush()
+
+    expect(send).not.toHaveBeenCalled()
+  })
+
+  it('should drain buffered events on shutdown and reject new ones', async () => {
+    const send = vi.fn().mockResolvedValue(undefined)
+    const exporter = createBatchExporter(config, { name: 'mock', send })
+
+    exporter.export(event('before shutdown'))
+    await exporter.shutdown()
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(send.mock.calls[0][0][0].message).toBe('before shutdown')
+
+    exporter.export(event('after shutdown'))
+    await exporter.flush()
+
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,269 @@
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { LogEvent } from './beacon.js'
+import { debugLogging } from './debug.js'
+import { createBoundedQueue, type DropReason } from './queue.js'
+import {
+  createTransport,
+  type DeliveryError,
+  type Transport,
+} from './transports.js'
+import { repairLogEvent, validateLogEvent } from './validator.js'
+import { createTailSampler } from './sampling.js'
+import { createRedactor } from './redaction.js'
+
+// ====== BATCH EXPORTER ======
+
+export type ExporterStats = {
+  queuedEvents: number
+  queuedBytes: number
+  repairedEvents: number
+  dropped: Record<DropReason, number>
+  transportFailures: Record<string, number> // Per member of a fanout
+}
+
+export type BatchExporter = {
+  export: (logEvent: LogEvent) => void
+  flush: () => Promise<void>
+  shutdown: () => Promise<void>
+  stats: () => ExporterStats
+}
+
+// Buffers log events and hands them to the transport once batchSize events are
+// collected or batchTimeout elapses, whichever comes first. Pending events live
+// in a bounded queue and only one batch is in flight at a time, so memory stays
+// capped during outages and events of a trace always arrive in order, even
+// when a batch has to be retried.
+export const createBatchExporter = (
+  config: BeaconConfig = DEFAULT_CONFIG,
+  transport: Transport = createTransport(config)
+): BatchExporter => {
+  const dropped: Record<DropReason, number> = {
+    max_events: 0,
+    max_bytes: 0,
+    oversized_event: 0,
+    shutdown: 0,
+    send_failed: 0,
+    spool_full: 0,
+    circuit_open: 0,
+    invalid_event: 0,
+    rejected: 0,
+  }
+  let repairedEvents = 0
+  const recordDrop = (reason: DropReason, count = 1): void => {
+    dropped[reason] += count
+  }
+
+  const queue = createBoundedQueue(config, (reason) => recordDrop(reason))
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let sending: Promise<void> = Promise.resolve()
+  let busy = false
+  let drainRequested = false
+  let closed = false
+
+  const clearTimer = (): void => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  // Sends full batches, or everything queued when a flush was requested
+  const pump = (drainAll: boolean): Promise<void> => {
+    drainRequested = drainRequested || drainAll
+    if (busy) {
+      return sending
+    }
+
+    busy = true
+    sending = (async () => {
+      try {
+        while (
+          queue.size() >= config.batchSize ||
+          (drainRequested && queue.size() > 0)
+        ) {
+          const batch = queue
+            .take(config.batchSize)
+            .map((logEvent) => ({ ...logEvent, resource: config.resource }))
+          if (debugLogging) {
+            console.log(`📦 Sending batch of ${batch.length} events`)
+          }
+          // A custom transport may throw instead of rejecting
+          await Promise.resolve()
+            .then(() => transport.send(batch))
+            .catch((error) => {
+              if (debugLogging) {
+                console.log(
+                  `❌ ${transport.name} transport lost a batch:`,
+                  error
+                )
+              }
+              const { reason } = error as Partial<DeliveryError>
+              recordDrop(reason ?? 'send_failed', batch.length)
+            })
+        }
+      } finally {
+        busy = false
+        drainRequested = false
+      }
+    })()
+    return sending
+  }
+
+  const flush = (): Promise<void> => {
+    clearTimer()
+    return pump(true)
+  }
+
+  // Repairs what can be repaired; null means the event must be rejected
+  const validate = (logEvent: LogEvent): LogEvent | null => {
+    const { event: repaired, repairs } = repairLogEvent(logEvent)
+    if (repairs.length > 0) {
+      repairedEvents += 1
+      if (debugLogging) {
+        console.log('🔧 Repaired event before sending:', repairs)
+      }
+    }
+
+    const { isValid, errors } = validateLogEvent(repaired)
+    if (isValid) {
+      return repaired
+    }
+
+    recordDrop('invalid_event')
+    if (debugLogging) {
+      console.log('❌ Rejected invalid event:', errors)
+    }
+    try {
+      config.onInvalidEvent?.(logEvent, errors)
+    } catch (error) {
+      console.error('onInvalidEvent callback failed:', error)
+    }
+    return null
+  }
+
+  const enqueue = (logEvent: LogEvent): void => {
+    queue.push(logEvent)
+
+    if (queue.size() >= config.batchSize) {
+      pump(false)
+    }
+
+    if (!timer && queue.size() > 0) {
+      timer = setTimeout(flush, config.batchTimeout)
+      // Never keep the process alive just to flush telemetry
+      timer.unref?.()
+    }
+  }
+
+  const redact = config.redaction ? createRedactor(config) : undefined
+
+  const tailSampler = config.tailSampling
+    ? createTailSampler(enqueue, config)
+    : undefined
+
+  const exportLog = (logEvent: LogEvent): void => {
+    if (!config.sendEnabled) {
+      return
+    }
+    if (closed) {
+      if (debugLogging) {
+        console.log(
+          '🛑 Exporter is shut down, dropping event:',
+          logEvent.message
+        )
+      }
+      recordDrop('shutdown')
+      return
+    }
+
+    // Redacted first, so nothing sensitive reaches onInvalidEvent either
+    const redacted = redact ? redact(logEvent) : logEvent
+    const event = config.enableValidation ? validate(redacted) : redacted
+    if (!event) {
+      return
+    }
+
+    if (tailSampler) {
+      tailSampler.add(event)
+    } else {
+      enqueue(event)
+    }
+  }
+
+  // Unfinished traces held by the tail sampler are decided now, not lost
+  const shutdown = async (): Promise<void> => {
+    closed = true
+    tailSampler?.drain()
+    tailSampler?.close()
+    await flush()
+    await transport.close?.()
+  }
+
+  const stats = (): ExporterStats => ({
+    queuedEvents: queue.size(),
+    queuedBytes: queue.bytes(),
+    repairedEvents,
+    dropped: { ...dropped },
+    transportFailures: transport.failures?.() ?? {},
+  })
+
+  return { export: exportLog, flush, shutdown, stats }
+}
+
+// Resolves true when the promise settles before the deadline, false otherwise
+export const waitWithTimeout = async (
+  promise: Promise<void>,
+  timeoutMs: number
+): Promise<boolean> => {
+  let deadline: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<boolean>((resolve) => {
+    deadline = setTimeout(() => resolve(false), timeoutMs)
+    deadline.unref?.()
+  })
+  try {
+    return await Promise.race([promise.then(() => true), timedOut])
+  } finally {
+    clearTimeout(deadline)
+  }
+}
+
+let defaultExporter: BatchExporter | undefined
+
+const getDefaultExporter = (): BatchExporter => {
+  if (!defaultExporter) {
+    defaultExporter = createBatchExporter(DEFAULT_CONFIG)
+  }
+  return defaultExporter
+}
+
+// Hands a single event to the shared exporter configured from DEFAULT_CONFIG
+export const exportLog = (logEvent: LogEvent): void => {
+  getDefaultExporter().export(logEvent)
+}
+
+// Queue depth and drop counters of the shared exporter
+export const getExporterStats = (): ExporterStats =>
+  getDefaultExporter().stats()
+
+// Waits for buffered and in-flight events to be delivered.
+// Returns false if the deadline passed before everything was drained.
+export const flush = async (timeoutMs = 5000): Promise<boolean> => {
+  if (!defaultExporter) {
+    return true
+  }
+  return waitWithTimeout(defaultExporter.flush(), timeoutMs)
+}
+
+// Drains the shared exporter and releases it. Events logged afterwards start
+// a fresh exporter, so closing one server does not silence the process.
+export const shutdown = async (timeoutMs = 5000): Promise<boolean> => {
+  if (!defaultExporter) {
+    return true
+  }
+  const exporter = defaultExporter
+  defaultExporter = undefined
+  if (debugLogging) {
+    console.log('🛑 Shutting down Beacon exporter')
+  }
+  return waitWithTimeout(exporter.shutdown(), timeoutMs)
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import Fastify, { type FastifyInstance } from 'fastify'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createBeacon, type BeaconClient } from './client.js'
+import { createMemoryTransport, type MemoryTransport } from './transports.js'
+
+describe('Fastify Plugin', () => {
+  let transport: MemoryTransport
+  let beacon: BeaconClient
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    transport = createMemoryTransport()
+    beacon = createBeacon({ sendEnabled: true, transport })
+    app = Fastify()
+    await app.register(beacon.plugin, {
+      propagation: ['tracecontext', 'request-id'],
+    })
+    app.get('/users/:id', async () => ({ ok: true }))
+    app.get('/fail', async () => {
+      throw new Error('handler exploded')
+    })
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should continue the trace of the caller', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/users/1',
+      headers: {
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      },
+    })
+    await beacon.flush()
+
+    const traceId = '4bf92f35-77b3-4da6-a3ce-929d0e0e4736'
+    expect(response.headers['x-trace-id']).toBe(traceId)
+    expect(transport.events[0]).toMatchObject({
+      trace_id: traceId,
+      parent_span_id: '00f067aa0ba902b7',
+    })
+  })
+
+  it('should start a new trace without trace headers', async () => {
+    const response = await app.inject({ method: 'GET', url: '/users/1' })
+    await beacon.flush()
+
+    expect(response.headers['x-trace-id']).toMatch(/^[0-9a-f-]{36}$/)
+    expect(transport.events[0]?.trace_id).toBe(response.headers['x-trace-id'])
+    expect(transport.events[0]?.parent_span_id).toBeUndefined()
+  })
+
+  it('should record request metrics per route', async () => {
+    await app.inject({ method: 'GET', url: '/users/1' })
+    await app.inject({ method: 'GET', url: '/users/2' })
+    await beacon.shutdown()
+
+    const metrics = transport.events
+      .filter((event) => event.event_type === 'metric')
+      .map((event) => event.metric_info)
+    expect(metrics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          metric_name: 'http.server.requests',
+          metric_labels: {
+            method: 'GET',
+            route: '/users/:id',
+            status_code: '200',
+          },
+          metric_value: 2,
+        }),
+        expect.objectContaining({
+          metric_name: 'http.server.duration',
+          metric_labels: { method: 'GET', route: '/users/:id' },
+          metric_count: 2,
+        }),
+      ])
+    )
+  })
+
+  it('should record the route template next to the concrete path', async () => {
+    await app.inject({ method: 'GET', url: '/users/42?expand=orders' })
+    await app.inject({ method: 'GET', url: '/missing' })
+    await beacon.flush()
+
+    const started = transport.events.filter((event) =>
+      event.message.endsWith('HTTP request started')
+    )
+    expect(started[0]?.trace_info).toMatchObject({
+      http_path: '/users/42',
+      http_route: '/users/:id',
+    })
+    expect(started[0]?.trace_info?.http_not_found).toBeUndefined()
+    expect(started[1]?.trace_info).toMatchObject({
+      http_path: '/missing',
+      http_not_found: true,
+    })
+    expect(started[1]?.trace_info?.http_route).toBeUndefined()
+  })
+
+  it('should log handler errors with their stack in the request trace', async () => {
+    const response = await app.inject({ method: 'GET', url: '/fail' })
+    await beacon.flush()
+
+    const traceId = response.headers['x-trace-id']
+    const exception = transport.events.find((event) => event.error)
+    expect(response.statusCode).toBe(500)
+    expect(exception).toMatchObject({
+      severity: 'error',
+      message: 'Error: handler exploded',
+      trace_id: traceId,
+      error: { type: 'Error', message: 'handler exploded' },
+      trace_info: {
+        custom_fields: { 'http.method': 'GET', 'http.route': '/fail' },
+      },
+    })
+    expect(exception?.error?.stack).toContain('handler exploded')
+  })
+
+  it('should deliver buffered events when the server closes', async () => {
+    app.get('/orders', async () => {
+      beacon.logInfo('order placed')
+      return { ok: true }
+    })
+
+    await app.inject({ method: 'GET', url: '/orders' })
+    expect(transport.events).toEqual([])
+    await app.close()
+
+    expect(transport.events.map((event) => event.message)).toContain(
+      'order placed'
+    )
+  })
+
+  it('should report telemetry that could not be delivered in time', async () => {
+    const stalled = createBeacon({
+      sendEnabled: true,
+      transport: { name: 'stalled', send: () => new Promise(() => {}) },
+    })
+    const stalledApp = Fastify()
+    await stalledApp.register(stalled.plugin, { shutdownTimeoutMs: 10 })
+    stalledApp.get('/orders', async () => {
+      stalled.logInfo('order placed')
+      return { ok: true }
+    })
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined)
+
+    try {
+      await stalledApp.inject({ method: 'GET', url: '/orders' })
+      await stalledApp.close()
+
+      expect(consoleError).toHaveBeenCalledWith(
+        'Beacon telemetry was not fully delivered before shutdown'
+      )
+    } finally {
+      consoleError.mockRestore()
+    }
+  })
+})
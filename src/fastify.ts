@@ -1,7 +1,20 @@
 import fp from 'fastify-plugin'
 import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify'
-import { endHttpTrace, runInSpan, startHttpTrace } from './api.js'
+import {
+  endHttpTrace,
+  logException,
+  metrics,
+  runInSpan,
+  shutdown,
+  startHttpTrace,
+  type LogApi,
+} from './api.js'
 import { executionContext } from './execution-context.js'
+import {
+  continueTrace,
+  extract,
+  type PropagationFormat,
+} from './propagation.js'
 
 // Extended Fastify types
 declare module 'fastify' {
@@ -28,87 +41,174 @@ export type BeaconFastifyPluginOptions = {
   onRequestCallback?: (request: FastifyRequest, reply: FastifyReply) => void
   onReplyCallback?: (request: FastifyRequest, reply: FastifyReply) => void
   excludePaths?: string[] // Paths to exclude from trace logging
+  shutdownTimeoutMs?: number // Max time fastify.close() waits for telemetry (default: 5000)
+  propagation?: PropagationFormat[] // Incoming trace headers to continue (default: ['tracecontext'])
+  traceIdResponseHeader?: string | false // Echoes the trace id (default: 'x-trace-id')
 }
 
-const beaconFastifyPluginAsync: FastifyPluginAsync<
-  BeaconFastifyPluginOptions
-> = async (fastify, options) => {
-  fastify.decorateRequest('logContext', {
-    getter() {
-      const request = this as FastifyRequest
-      return (
-        request._logContext || {
-          traceId: '',
-          spanId: '',
-          start: BigInt(0),
-          logCount: 0,
-          logs: [],
-        }
-      )
-    },
-    setter(value) {
-      const request = this as FastifyRequest
-      request._logContext = value
-    },
+// The parts of a Beacon client the plugin relies on
+export type BeaconFastifyPluginClient = Pick<
+  LogApi,
+  'runInSpan' | 'startHttpTrace' | 'endHttpTrace' | 'logException' | 'metrics'
+> & {
+  shutdown: (timeoutMs?: number) => Promise<boolean>
+}
+
+// Builds the plugin around one client, so each client traces with its own
+// config and drains its own exporter when Fastify closes
+export const createBeaconFastifyPlugin = (
+  client: BeaconFastifyPluginClient
+) => {
+  const { runInSpan, startHttpTrace, endHttpTrace, logException, shutdown } =
+    client
+  // RED metrics: rate, errors and duration per route
+  const requests = client.metrics.counter('http.server.requests')
+  const errors = client.metrics.counter('http.server.errors')
+  const duration = client.metrics.histogram('http.server.duration', {
+    unit: 'ms',
   })
-  fastify.decorateRequest('onRequestCallback', options.onRequestCallback)
-  fastify.decorateReply('onReplyCallback', options.onReplyCallback)
 
-  // Helper function to check if path should be excluded
-  const shouldExcludePath = (path: string): boolean => {
-    if (!options.excludePaths || options.excludePaths.length === 0) {
-      return false
-    }
+  const beaconFastifyPluginAsync: FastifyPluginAsync<
+    BeaconFastifyPluginOptions
+  > = async (fastify, options) => {
+    fastify.decorateRequest('logContext', {
+      getter() {
+        const request = this as FastifyRequest
+        return (
+          request._logContext || {
+            traceId: '',
+            spanId: '',
+            start: BigInt(0),
+            logCount: 0,
+            logs: [],
+          }
+        )
+      },
+      setter(value) {
+        const request = this as FastifyRequest
+        request._logContext = value
+      },
+    })
+    fastify.decorateRequest('onRequestCallback', options.onRequestCallback)
+    fastify.decorateReply('onReplyCallback', options.onReplyCallback)
 
-    const normalizedPath = path.split('?')[0] // Remove query params for matching
-    return options.excludePaths.some((excludePath) => {
-      // Support exact match and wildcard patterns
-      if (excludePath.endsWith('*')) {
-        const prefix = excludePath.slice(0, -1)
-        return normalizedPath.startsWith(prefix)
+    // Helper function to check if path should be excluded
+    const shouldExcludePath = (path: string): boolean => {
+      if (!options.excludePaths || options.excludePaths.length === 0) {
+        return false
       }
-      return normalizedPath === excludePath
-    })
-  }
 
-  fastify.addHook('onRequest', (request, reply, done) => {
-    const start = process.hrtime.bigint()
+      const normalizedPath = path.split('?')[0] // Remove query params for matching
+      return options.excludePaths.some((excludePath) => {
+        // Support exact match and wildcard patterns
+        if (excludePath.endsWith('*')) {
+          const prefix = excludePath.slice(0, -1)
+          return normalizedPath.startsWith(prefix)
+        }
+        return normalizedPath === excludePath
+      })
+    }
+
+    // Undefined for requests answered by the 404 handler
+    const routeOf = (request: FastifyRequest): string | undefined =>
+      request.is404 ? undefined : request.routeOptions?.url
+
+    const traceIdResponseHeader = options.traceIdResponseHeader ?? 'x-trace-id'
 
-    runInSpan(async () => {
-      request.logContext = {
-        traceId: executionContext.getStore()?.traceId || '',
-        spanId: executionContext.getStore()?.spanId || '',
-        start,
+    fastify.addHook('onRequest', (request, reply, done) => {
+      const start = process.hrtime.bigint()
+      // Requests from instrumented callers continue the caller's trace
+      const remoteContext = extract(request.headers, options.propagation)
+      const withRemoteParent = <T>(fn: () => T): T =>
+        remoteContext ? continueTrace(remoteContext, fn) : fn()
+
+      withRemoteParent(() =>
+        runInSpan(
+          async () => {
+            request.logContext = {
+              traceId: executionContext.getStore()?.traceId || '',
+              spanId: executionContext.getStore()?.spanId || '',
+              start,
+            }
+            if (traceIdResponseHeader) {
+              reply.header(traceIdResponseHeader, request.logContext.traceId)
+            }
+            request.onRequestCallback?.(request, reply)
+            if (!shouldExcludePath(request.url)) {
+              startHttpTrace({
+                method: request.method,
+                path: request.url.split('?')[0],
+                route: routeOf(request),
+                notFound: request.is404 || undefined,
+                userAgent: request.headers['user-agent'],
+                remoteIP: request.ip,
+              })
+            }
+            done()
+          },
+          {
+            method: request.method,
+            route: request.routeOptions?.url ?? request.url.split('?')[0],
+          }
+        )
+      )
+    })
+    fastify.addHook('onResponse', (request, reply, done) => {
+      const { start } = request.logContext || {}
+      const durationMs = !start
+        ? 0
+        : Number(process.hrtime.bigint() - start) / 1e6
+
+      // Route templates keep label combinations bounded, raw paths would not
+      const route = routeOf(request) ?? 'unmatched'
+      requests.add(1, {
+        method: request.method,
+        route,
+        status_code: reply.statusCode,
+      })
+      if (reply.statusCode >= 500) {
+        errors.add(1, { method: request.method, route })
       }
-      request.onRequestCallback?.(request, reply)
+      duration.record(durationMs, { method: request.method, route })
+
       if (!shouldExcludePath(request.url)) {
-        startHttpTrace({
+        endHttpTrace({
           method: request.method,
           path: request.url.split('?')[0],
-          userAgent: request.headers['user-agent'],
-          remoteIP: request.ip,
+          statusCode: reply.statusCode,
+          durationMs,
         })
       }
+      reply.onReplyCallback?.(request, reply)
       done()
     })
-  })
-  fastify.addHook('onResponse', (request, reply, done) => {
-    if (!shouldExcludePath(request.url)) {
-      const { start } = request.logContext || {}
-
-      const durationMs = !start
-        ? 0
-        : Number(process.hrtime.bigint() - start) / 1e6
-      endHttpTrace({
-        method: request.method,
-        path: request.url.split('?')[0],
-        statusCode: reply.statusCode,
-        durationMs,
+    // Runs in the request's span, so the exception joins its trace
+    fastify.addHook('onError', (request, reply, error, done) => {
+      logException(error, {
+        'http.method': request.method,
+        'http.route': routeOf(request),
       })
-    }
-    reply.onReplyCallback?.(request, reply)
-    done()
-  })
+      done()
+    })
+    fastify.addHook('onClose', async () => {
+      // Deliver buffered telemetry before the server finishes closing
+      const drained = await shutdown(options.shutdownTimeoutMs ?? 5000)
+      if (!drained) {
+        console.error(
+          'Beacon telemetry was not fully delivered before shutdown'
+        )
+      }
+    })
+  }
+
+  return fp(beaconFastifyPluginAsync, {})
 }
 
-export const beaconFastifyPlugin = fp(beaconFastifyPluginAsync, {})
+export const beaconFastifyPlugin = createBeaconFastifyPlugin({
+  runInSpan,
+  startHttpTrace,
+  endHttpTrace,
+  logException,
+  metrics,
+  shutdown,
+})
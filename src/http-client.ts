@@ -0,0 +1,286 @@
+import diagnosticsChannel from 'diagnostics_channel'
+import http, { type ClientRequest, type IncomingMessage } from 'http'
+import https from 'https'
+import { syncBuiltinESMExports } from 'module'
+import { startSpan, type LogApi, type Span } from './api.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+import { inject, type PropagationFormat } from './propagation.js'
+
+// ====== OUTBOUND HTTP INSTRUMENTATION ======
+
+export type HttpClientInstrumentationOptions = {
+  fetch?: boolean // Global fetch and undici (default: true)
+  http?: boolean // node:http and node:https request/get (default: true)
+  ignoreUrls?: Array<string | RegExp> // Prefixes or patterns left untraced
+  propagation?: PropagationFormat[] // Headers injected into calls (default: ['tracecontext'])
+}
+
+// The fields of undici's request object we rely on
+type UndiciRequest = {
+  method: string
+  origin: string
+  path: string
+  addHeader: (name: string, value: string) => void
+}
+
+type RequestFunction = typeof http.request
+
+const REDACTED = 'REDACTED'
+
+// Credentials, query values and fragments can carry secrets
+export const redactUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url)
+    parsed.username = ''
+    parsed.password = ''
+    parsed.hash = ''
+    Array.from(new Set(parsed.searchParams.keys())).forEach((key) =>
+      parsed.searchParams.set(key, REDACTED)
+    )
+    return parsed.toString()
+  } catch {
+    return url.split('?')[0]
+  }
+}
+
+// Best effort URL of an http.request call, for exclusion and span attributes
+const requestUrl = (args: unknown[], defaultProtocol: string): string => {
+  const [first] = args
+  if (typeof first === 'string' || first instanceof URL) {
+    return String(first)
+  }
+  const options = (first ?? {}) as http.RequestOptions
+  const host = options.hostname ?? options.host ?? 'localhost'
+  const port = options.port ? `:${options.port}` : ''
+  return `${options.protocol ?? defaultProtocol}//${host}${port}${
+    options.path ?? '/'
+  }`
+}
+
+const requestMethod = (args: unknown[]): string => {
+  const options = args.find(
+    (arg) => arg && typeof arg === 'object' && !(arg instanceof URL)
+  ) as http.RequestOptions | undefined
+  return (options?.method ?? 'GET').toUpperCase()
+}
+
+// node:http sends headers before any diagnostics_channel message fires, so
+// propagation headers are added to the call arguments instead
+const withHeaders = (
+  args: unknown[],
+  headers: Record<string, string>
+): unknown[] => {
+  const [first, second, ...rest] = args
+  const merge = (options: http.RequestOptions): http.RequestOptions =>
+    Array.isArray(options.headers)
+      ? options // Raw header arrays are passed through untouched
+      : { ...options, headers: { ...options.headers, ...headers } }
+
+  if (typeof first === 'string' || first instanceof URL) {
+    return second && typeof second === 'object'
+      ? [first, merge(second as http.RequestOptions), ...rest]
+      : [first, { headers }, ...args.slice(1)]
+  }
+  return [merge((first ?? {}) as http.RequestOptions), ...args.slice(1)]
+}
+
+// Builds the instrumentation around one client, so outbound spans go through
+// its exporter and its own Beacon server is never traced
+export const createHttpClientInstrumentation = (
+  client: Pick<LogApi, 'startSpan'>,
+  config: BeaconConfig = DEFAULT_CONFIG
+) => {
+  let uninstrument: (() => void) | undefined
+
+  // Returns a function that removes the instrumentation again
+  return (options: HttpClientInstrumentationOptions = {}): (() => void) => {
+    if (uninstrument) return uninstrument
+
+    const formats = options.propagation ?? ['tracecontext']
+    const beaconOrigin = new URL(config.baseUrl).origin
+    // Compared whole, so http://beacon:80 never matches http://beacon:8080
+    const isBeaconUrl = (url: string): boolean => {
+      try {
+        return new URL(url).origin === beaconOrigin
+      } catch {
+        return false
+      }
+    }
+    const isIgnored = (url: string): boolean =>
+      isBeaconUrl(url) ||
+      (options.ignoreUrls ?? []).some((pattern) =>
+        typeof pattern === 'string'
+          ? url.startsWith(pattern)
+          : pattern.test(url)
+      )
+
+    const startClientSpan = (method: string, url: string): Span => {
+      let host: string | undefined
+      try {
+        host = new URL(url).host
+      } catch {
+        host = undefined
+      }
+      return client.startSpan(`HTTP ${method}`, {
+        attributes: {
+          'http.method': method,
+          'http.url': redactUrl(url),
+          'http.host': host,
+        },
+      })
+    }
+
+    const responded = (span: Span, statusCode: number): void => {
+      span.setAttribute('http.status_code', statusCode)
+      if (statusCode >= 400) span.setStatus('error', `HTTP ${statusCode}`)
+      span.end()
+    }
+
+    const failed = (span: Span, error: unknown): void => {
+      span.recordException(error).setStatus('error').end()
+    }
+
+    const cleanups: Array<() => void> = []
+    const subscribe = (
+      name: string,
+      onMessage: (message: unknown) => void
+    ): void => {
+      diagnosticsChannel.subscribe(name, onMessage)
+      cleanups.push(() => diagnosticsChannel.unsubscribe(name, onMessage))
+    }
+
+    if (options.fetch !== false) {
+      // Global fetch runs on undici, which reports every request here
+      const spans = new WeakMap<UndiciRequest, Span>()
+
+      subscribe('undici:request:create', (message) => {
+        const { request } = message as { request: UndiciRequest }
+        const url = `${String(request.origin)}${request.path}`
+        if (isIgnored(url)) return
+
+        const span = startClientSpan(request.method, url)
+        spans.set(request, span)
+        Object.entries(inject({}, span.context, formats)).forEach(
+          ([name, value]) => request.addHeader(name, String(value))
+        )
+      })
+      // Spans end when response headers arrive, the body may never be read
+      subscribe('undici:request:headers', (message) => {
+        const { request, response } = message as {
+          request: UndiciRequest
+          response: { statusCode: number }
+        }
+        const span = spans.get(request)
+        if (!span) return
+        spans.delete(request)
+        responded(span, response.statusCode)
+      })
+      subscribe('undici:request:error', (message) => {
+        const { request, error } = message as {
+          request: UndiciRequest
+          error: unknown
+        }
+        const span = spans.get(request)
+        if (!span) return
+        spans.delete(request)
+        failed(span, error)
+      })
+    }
+
+    if (options.http !== false) {
+      const spans = new WeakMap<ClientRequest, Span>()
+
+      subscribe('http.client.response.finish', (message) => {
+        const { request, response } = message as {
+          request: ClientRequest
+          response: IncomingMessage
+        }
+        const span = spans.get(request)
+        if (!span) return
+        spans.delete(request)
+        responded(span, response.statusCode ?? 0)
+      })
+
+      const wrapRequest = (
+        original: RequestFunction,
+        defaultProtocol: string
+      ): RequestFunction =>
+        function (this: unknown, ...args: unknown[]) {
+          const url = requestUrl(args, defaultProtocol)
+          if (isIgnored(url)) {
+            return original.apply(this, args as Parameters<RequestFunction>)
+          }
+
+          const span = startClientSpan(requestMethod(args), url)
+          const headers = inject({}, span.context, formats)
+          let request: ClientRequest
+          try {
+            request = original.apply(
+              this,
+              withHeaders(args, headers) as Parameters<RequestFunction>
+            )
+          } catch (error) {
+            failed(span, error)
+            throw error
+          }
+          spans.set(request, span)
+
+          // Listening for 'error' would swallow errors nobody else handles
+          const emit = request.emit
+          request.emit = function (
+            this: ClientRequest,
+            event: string | symbol,
+            ...rest: unknown[]
+          ) {
+            if (event === 'error' && spans.has(request)) {
+              spans.delete(request)
+              failed(span, rest[0])
+            }
+            return emit.call(this, event, ...rest)
+          } as typeof request.emit
+          return request
+        } as RequestFunction
+
+      const patch = (module: typeof http | typeof https, protocol: string) => {
+        const { request, get } = module
+        const tracedRequest = wrapRequest(request, protocol)
+        // Same as node's own get, but through the traced request
+        const tracedGet = function (this: unknown, ...args: unknown[]) {
+          const clientRequest = tracedRequest.apply(
+            this,
+            args as Parameters<RequestFunction>
+          )
+          clientRequest.end()
+          return clientRequest
+        } as typeof get
+
+        module.request = tracedRequest
+        module.get = tracedGet
+        cleanups.push(() => {
+          module.request = request
+          module.get = get
+        })
+      }
+      patch(http, 'http:')
+      patch(https, 'https:')
+      // Named ESM imports of node:http pick up the patched functions too
+      syncBuiltinESMExports()
+    }
+
+    if (debugLogging) {
+      console.log('🔌 Outbound HTTP instrumentation enabled')
+    }
+
+    uninstrument = () => {
+      cleanups.splice(0).forEach((cleanup) => cleanup())
+      syncBuiltinESMExports()
+      uninstrument = undefined
+    }
+    return uninstrument
+  }
+}
+
+export const instrumentHttpClients = createHttpClientInstrumentation({
+  startSpan,
+})
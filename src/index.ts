@@ -1,5 +1,77 @@
 // Beacon Node TypeScript Instrumentation Library
 // ====== PUBLIC API ======
 export * from './api.js'
-export { beaconFastifyPlugin, BeaconFastifyPluginOptions } from './fastify.js'
+export { createBeacon, BeaconClient, BeaconClientStats } from './client.js'
+export { BeaconConfig, DEFAULT_CONFIG } from './config.js'
+export { SamplingRule } from './sampling.js'
+export { LogLimiterStats } from './rate-limit.js'
+export {
+  beaconFastifyPlugin,
+  createBeaconFastifyPlugin,
+  BeaconFastifyPluginOptions,
+  BeaconFastifyPluginClient,
+} from './fastify.js'
+export { flush, getExporterStats, ExporterStats } from './exporter.js'
+export { OverflowPolicy, DropReason } from './queue.js'
+export {
+  getCircuitState,
+  LogEvent,
+  ResourceAttributes,
+  ErrorInfo,
+  StackFrame,
+  MetricInfo,
+  MetricType,
+} from './beacon.js'
+export { CircuitState } from './circuit-breaker.js'
+export {
+  createHttpTransport,
+  createStdoutTransport,
+  createFileTransport,
+  createMemoryTransport,
+  createFanoutTransport,
+  deliveryError,
+  Transport,
+  TransportName,
+  MemoryTransport,
+  DeliveryError,
+} from './transports.js'
+export {
+  instrumentHttpClients,
+  createHttpClientInstrumentation,
+  redactUrl,
+  HttpClientInstrumentationOptions,
+} from './http-client.js'
+export {
+  instrumentPg,
+  instrumentMysql2,
+  instrumentKnex,
+  instrumentPrisma,
+  prismaExtension,
+  createDbInstrumentation,
+  DbInstrumentationOptions,
+} from './db.js'
+export { analyzeSql, SqlAnalysis } from './sql.js'
+export {
+  Metrics,
+  MetricLabels,
+  MetricOptions,
+  HistogramOptions,
+  Counter,
+  Gauge,
+  Histogram,
+} from './metrics.js'
+export {
+  createRedactor,
+  Redactor,
+  RedactionDetector,
+  RedactionMode,
+  RedactionRule,
+} from './redaction.js'
+export {
+  inject,
+  extract,
+  continueTrace,
+  PropagationFormat,
+  PropagatedContext,
+} from './propagation.js'
 export { enableDebugLogging, disableDebugLogging } from './debug.js'
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createMetrics } from './metrics.js'
+import { createLogApi } from './api.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { LogEvent } from './beacon.js'
+
+const config: BeaconConfig = {
+  ...DEFAULT_CONFIG,
+  metricsInterval: 10000,
+  metricsBuckets: [10, 100],
+  maxMetricSeries: 2,
+}
+
+describe('Metrics', () => {
+  const emit = vi.fn()
+  const emitted = (): LogEvent['metric_info'][] =>
+    emit.mock.calls.map(([event]) => (event as LogEvent).metric_info)
+
+  beforeEach(() => {
+    emit.mockClear()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should send counter increases per label set and start over', () => {
+    const metrics = createMetrics(emit, config)
+    const orders = metrics.counter('orders.created')
+
+    orders.add(1, { plan: 'pro' })
+    orders.add(2, { plan: 'pro' })
+    orders.add(1, { plan: 'free', region: undefined })
+    orders.add(-1, { plan: 'free' })
+    metrics.flush()
+
+    expect(emit).toHaveBeenCalledWith(
+      expect.objectContaining({ event_type: 'metric', severity: 'info' })
+    )
+    expect(emitted()).toMatchObject([
+      {
+        metric_type: 'counter',
+        metric_labels: { plan: 'pro' },
+        metric_value: 3,
+      },
+      { metric_labels: { plan: 'free' }, metric_value: 1 },
+    ])
+
+    emit.mockClear()
+    metrics.flush()
+    expect(emit).not.toHaveBeenCalled()
+  })
+
+  it('should keep sending the last gauge value', () => {
+    const metrics = createMetrics(emit, config)
+
+    metrics.gauge('queue.depth').set(4)
+    metrics.gauge('queue.depth').set(7)
+    metrics.flush()
+    metrics.flush()
+
+    expect(emitted()).toMatchObject([
+      { metric_name: 'queue.depth', metric_value: 7 },
+      { metric_name: 'queue.depth', metric_value: 7 },
+    ])
+  })
+
+  it('should count histogram values into buckets', () => {
+    const metrics = createMetrics(emit, config)
+    const latency = metrics.histogram('latency', { unit: 'ms' })
+
+    ;[5, 10, 50, 500].forEach((value) => latency.record(value))
+    metrics.flush()
+
+    expect(emitted()[0]).toMatchObject({
+      metric_type: 'histogram',
+      metric_unit: 'ms',
+      metric_count: 4,
+      metric_sum: 565,
+      metric_min: 5,
+      metric_max: 500,
+      metric_buckets: [10, 100],
+      metric_bucket_counts: [2, 1, 1],
+    })
+  })
+
+  it('should drop label combinations beyond maxMetricSeries', () => {
+    const metrics = createMetrics(emit, config)
+    const hits = metrics.counter('hits')
+
+    ;['a', 'b', 'c'].forEach((path) => hits.add(1, { path }))
+    metrics.flush()
+
+    expect(emitted().map((info) => info?.metric_labels)).toEqual([
+      { path: 'a' },
+      { path: 'b' },
+    ])
+  })
+
+  it('should flush every metricsInterval and once more on close', async () => {
+    const metrics = createMetrics(emit, config)
+    const hits = metrics.counter('hits')
+
+    hits.add()
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(emitted()).toMatchObject([
+      { metric_value: 1, metric_interval_ms: 10000 },
+    ])
+
+    hits.add(5)
+    metrics.close()
+    await vi.advanceTimersByTimeAsync(20000)
+    expect(emitted()).toHaveLength(2)
+    expect(emitted()[1]).toMatchObject({ metric_value: 5 })
+
+    // Recording again after close re-arms the periodic flush
+    hits.add(2)
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(emitted()).toHaveLength(3)
+    expect(emitted()[2]).toMatchObject({ metric_value: 2 })
+    metrics.close()
+  })
+
+  it('should record database metrics from logDbOperation', () => {
+    const api = createLogApi(emit, config)
+
+    api.logDbOperation('SELECT * FROM users WHERE id = 1', 20)
+    api.logDbOperation('UPDATE users SET name = ?', 3, 0, {
+      errorCode: 'ER_LOCK_WAIT_TIMEOUT',
+    })
+    emit.mockClear()
+    api.close()
+
+    const labels = { table: 'users', query_type: 'SELECT' }
+    expect(emitted()).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          metric_name: 'db.client.operations',
+          metric_labels: labels,
+          metric_value: 1,
+        }),
+        expect.objectContaining({
+          metric_name: 'db.client.errors',
+          metric_labels: { table: 'users', query_type: 'UPDATE' },
+          metric_value: 1,
+        }),
+        expect.objectContaining({
+          metric_name: 'db.client.duration',
+          metric_labels: labels,
+          metric_count: 1,
+          metric_sum: 20,
+        }),
+      ])
+    )
+  })
+})
@@ -0,0 +1,262 @@
+import { LogEvent, MetricInfo, MetricType } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== METRICS ======
+
+// Values are sent as strings; undefined labels are left out
+export type MetricLabels = Record<string, string | number | boolean | undefined>
+
+export type MetricOptions = {
+  description?: string
+  unit?: string // e.g. 'ms', 'bytes'
+}
+
+export type HistogramOptions = MetricOptions & {
+  buckets?: number[] // Upper bounds, defaults to config.metricsBuckets
+}
+
+// Monotonic, sent as the increase since the previous flush
+export type Counter = {
+  add: (value?: number, labels?: MetricLabels) => void
+}
+
+// Last value set, sent on every flush
+export type Gauge = {
+  set: (value: number, labels?: MetricLabels) => void
+}
+
+// Distribution of the values recorded since the previous flush
+export type Histogram = {
+  record: (value: number, labels?: MetricLabels) => void
+}
+
+export type Metrics = {
+  counter: (name: string, options?: MetricOptions) => Counter
+  gauge: (name: string, options?: MetricOptions) => Gauge
+  histogram: (name: string, options?: HistogramOptions) => Histogram
+  flush: () => void // Emits everything aggregated so far
+  close: () => void // Final flush; the next recorded value restarts the timer
+}
+
+// One label combination of an instrument
+type Series = {
+  labels: Record<string, string>
+  value: number
+  count: number
+  sum: number
+  min: number
+  max: number
+  bucketCounts: number[] // One more than buckets, the last one is +Inf
+}
+
+type Instrument = {
+  name: string
+  type: MetricType
+  options: MetricOptions
+  buckets: number[]
+  series: Map<string, Series>
+  overflowed: boolean // Warned about the series limit already
+}
+
+const normalizeLabels = (labels: MetricLabels = {}): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(labels)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  )
+
+const normalizeBuckets = (buckets: number[]): number[] =>
+  Array.from(new Set(buckets.filter(Number.isFinite))).sort((a, b) => a - b)
+
+// Aggregates in-process and hands one 'metric' event per series to emit
+// every metricsInterval, so the server gets rates and percentiles without
+// scanning individual events
+export const createMetrics = (
+  emit: (logEvent: LogEvent) => void,
+  config: BeaconConfig = DEFAULT_CONFIG
+): Metrics => {
+  // Keyed by type and name, a name reused with another type is a new instrument
+  const instruments = new Map<string, Instrument>()
+  let timer: ReturnType<typeof setInterval> | undefined
+  let intervalStart = Date.now()
+
+  // Started on the first recorded value, idle processes get no timer
+  const startTimer = (): void => {
+    if (timer || config.metricsInterval <= 0) return
+    timer = setInterval(flush, config.metricsInterval)
+    // Never keep the process alive just to send metrics
+    timer.unref?.()
+  }
+
+  const getInstrument = (
+    name: string,
+    type: MetricType,
+    options: HistogramOptions
+  ): Instrument => {
+    const key = `${type}:${name}`
+    let instrument = instruments.get(key)
+    if (!instrument) {
+      if (
+        debugLogging &&
+        Array.from(instruments.values()).some((other) => other.name === name)
+      ) {
+        console.warn(`⚠️ Metric "${name}" is already used with another type`)
+      }
+      instrument = {
+        name,
+        type,
+        options: { description: options.description, unit: options.unit },
+        buckets: normalizeBuckets(options.buckets ?? config.metricsBuckets),
+        series: new Map(),
+        overflowed: false,
+      }
+      instruments.set(key, instrument)
+    }
+    return instrument
+  }
+
+  // Undefined when the instrument hit maxMetricSeries
+  const getSeries = (
+    instrument: Instrument,
+    labels: MetricLabels | undefined
+  ): Series | undefined => {
+    const normalized = normalizeLabels(labels)
+    const key = JSON.stringify(normalized)
+    let series = instrument.series.get(key)
+    if (!series) {
+      if (instrument.series.size >= config.maxMetricSeries) {
+        if (debugLogging && !instrument.overflowed) {
+          console.warn(
+            `⚠️ Metric "${instrument.name}" reached ${config.maxMetricSeries} label combinations, dropping new ones`
+          )
+        }
+        instrument.overflowed = true
+        return undefined
+      }
+      series = {
+        labels: normalized,
+        value: 0,
+        count: 0,
+        sum: 0,
+        min: Infinity,
+        max: -Infinity,
+        bucketCounts: new Array(instrument.buckets.length + 1).fill(0),
+      }
+      instrument.series.set(key, series)
+    }
+    startTimer()
+    return series
+  }
+
+  const counter = (name: string, options: MetricOptions = {}): Counter => {
+    const instrument = getInstrument(name, 'counter', options)
+    return {
+      add: (value = 1, labels) => {
+        if (!Number.isFinite(value) || value < 0) return
+        const series = getSeries(instrument, labels)
+        if (series) series.value += value
+      },
+    }
+  }
+
+  const gauge = (name: string, options: MetricOptions = {}): Gauge => {
+    const instrument = getInstrument(name, 'gauge', options)
+    return {
+      set: (value, labels) => {
+        if (!Number.isFinite(value)) return
+        const series = getSeries(instrument, labels)
+        if (series) series.value = value
+      },
+    }
+  }
+
+  const histogram = (
+    name: string,
+    options: HistogramOptions = {}
+  ): Histogram => {
+    const instrument = getInstrument(name, 'histogram', options)
+    return {
+      record: (value, labels) => {
+        if (!Number.isFinite(value)) return
+        const series = getSeries(instrument, labels)
+        if (!series) return
+        series.count += 1
+        series.sum += value
+        series.min = Math.min(series.min, value)
+        series.max = Math.max(series.max, value)
+        const bucket = instrument.buckets.findIndex((bound) => value <= bound)
+        series.bucketCounts[
+          bucket === -1 ? instrument.buckets.length : bucket
+        ] += 1
+      },
+    }
+  }
+
+  const toEvent = (
+    instrument: Instrument,
+    series: Series,
+    now: number
+  ): LogEvent => {
+    const { name, type, options, buckets } = instrument
+    const metric_info: MetricInfo = {
+      metric_name: name,
+      metric_type: type,
+      metric_unit: options.unit,
+      metric_description: options.description,
+      metric_labels: series.labels,
+      metric_interval_ms: now - intervalStart,
+      ...(type === 'histogram'
+        ? {
+            metric_count: series.count,
+            metric_sum: series.sum,
+            metric_min: series.min,
+            metric_max: series.max,
+            metric_buckets: buckets,
+            metric_bucket_counts: series.bucketCounts,
+          }
+        : { metric_value: series.value }),
+    }
+    return {
+      event_type: 'metric',
+      severity: 'info',
+      message: `${name} ${type}`,
+      timestamp: new Date(now).toISOString(),
+      metric_info,
+    }
+  }
+
+  const flush = (): void => {
+    const now = Date.now()
+    let emitted = 0
+    instruments.forEach((instrument) => {
+      instrument.series.forEach((series) => {
+        emit(toEvent(instrument, series, now))
+        emitted += 1
+      })
+      // Counters and histograms start over, gauges keep their last value
+      if (instrument.type !== 'gauge') {
+        instrument.series.clear()
+        instrument.overflowed = false
+      }
+    })
+    intervalStart = now
+
+    if (debugLogging && emitted > 0) {
+      console.log(`📈 Flushed ${emitted} metric series`)
+    }
+  }
+
+  // Not a latch: the default API is closed by every server shutdown, and the
+  // rest of the process keeps recording metrics afterwards
+  const close = (): void => {
+    if (timer) {
+      clearInterval(timer)
+      timer = undefined
+    }
+    flush()
+  }
+
+  return { counter, gauge, histogram, flush, close }
+}
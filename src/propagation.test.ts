@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { continueTrace, extract, inject } from './propagation.js'
+import { executionContext } from './execution-context.js'
+
+const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+
+describe('Trace Context Propagation', () => {
+  it('should extract W3C traceparent and tracestate', () => {
+    expect(extract({ traceparent, tracestate: 'vendor=abc' })).toEqual({
+      traceId: '4bf92f35-77b3-4da6-a3ce-929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+      traceState: 'vendor=abc',
+    })
+  })
+
+  it('should reject malformed and all-zero traceparents', () => {
+    expect(extract({ traceparent: 'garbage' })).toBeUndefined()
+    expect(
+      extract({
+        traceparent: '00-00000000000000000000000000000000-00f067aa0ba902b7-01',
+      })
+    ).toBeUndefined()
+    expect(extract({ traceparent: `${traceparent}-extra` })).toBeUndefined()
+  })
+
+  it('should fall back to b3 and x-request-id when enabled', () => {
+    const formats = ['tracecontext', 'b3', 'request-id'] as const
+
+    expect(
+      extract({ b3: '80f198ee56343ba8-e457b5a2e4d86bd1-0' }, [...formats])
+    ).toEqual({
+      traceId: '00000000-0000-0000-80f1-98ee56343ba8',
+      spanId: 'e457b5a2e4d86bd1',
+      sampled: false,
+    })
+    expect(extract({ 'x-request-id': 'req-42' }, [...formats])).toEqual({
+      traceId: 'req-42',
+    })
+    expect(extract({ 'x-request-id': 'req-42' })).toBeUndefined()
+  })
+
+  it('should round-trip the full span id between Beacon services', () => {
+    const context = {
+      traceId: '4bf92f35-77b3-4da6-a3ce-929d0e0e4736',
+      spanId: '9c5b94b1-35a4-4ef0-9e6c-1c6b8a0f2d3e',
+      sampled: true,
+      traceState: 'beacon=stale,vendor=abc',
+    }
+
+    const headers = inject({}, context)
+
+    expect(headers).toEqual({
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-9c5b94b135a44ef0-01',
+      tracestate: `beacon=${context.spanId},vendor=abc`,
+    })
+    expect(extract(headers)).toEqual({
+      ...context,
+      traceState: headers.tracestate,
+    })
+  })
+
+  it('should inject the active span and continue remote traces', () => {
+    const remote = extract({ traceparent })!
+
+    continueTrace(remote, () => {
+      const store = executionContext.getStore()
+      expect(store?.traceId).toBe(remote.traceId)
+      expect(store?.spanId).toBe('00f067aa0ba902b7')
+
+      expect(inject({}, undefined, ['b3'])).toEqual({
+        b3: '4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-1',
+      })
+    })
+    expect(inject({})).toEqual({})
+  })
+})
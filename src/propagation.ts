@@ -0,0 +1,201 @@
+import { createHash } from 'crypto'
+import { type SpanContext } from './api.js'
+import { executionContext } from './execution-context.js'
+
+// ====== TRACE CONTEXT PROPAGATION ======
+
+// tracecontext: W3C traceparent/tracestate, b3: Zipkin single or multi header,
+// request-id: x-request-id used as the trace id
+export type PropagationFormat = 'tracecontext' | 'b3' | 'request-id'
+
+// Trace context received from a caller. x-request-id carries no span id.
+export type PropagatedContext = Omit<SpanContext, 'spanId'> & {
+  spanId?: string
+}
+
+type Headers = Record<string, string | string[] | number | undefined>
+
+// Our own entry in tracestate, carrying the full span id of the caller
+const TRACESTATE_KEY = 'beacon'
+const MAX_TRACESTATE_ENTRIES = 32
+const MAX_REQUEST_ID_LENGTH = 128
+
+const TRACEPARENT_REGEX =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+const HEX_REGEX = /^[0-9a-f]+$/
+const ZERO_REGEX = /^0+$/
+
+const getHeader = (headers: Headers, name: string): string | undefined => {
+  const value =
+    headers[name] ??
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1]
+  const first = Array.isArray(value) ? value[0] : value
+  return first === undefined ? undefined : String(first).trim()
+}
+
+const hashHex = (value: string, length: number): string =>
+  createHash('sha256').update(value).digest('hex').substring(0, length)
+
+// Our ids are UUIDs, W3C wants 32 and 16 lowercase hex digits. Ids that are
+// not hex (e.g. a request id used as trace id) are hashed into shape.
+const toHexId = (id: string, length: number): string => {
+  const hex = id.replace(/-/g, '').toLowerCase()
+  return hex.length >= length && HEX_REGEX.test(hex) && !ZERO_REGEX.test(hex)
+    ? hex.substring(0, length)
+    : hashHex(id, length)
+}
+
+// 32 hex digits back into UUID form, so continued traces look like local ones
+const toUuid = (hex: string): string =>
+  `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(
+    12,
+    16
+  )}-${hex.substring(16, 20)}-${hex.substring(20, 32)}`
+
+const parseTraceState = (traceState: string | undefined): string[] =>
+  (traceState ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.includes('='))
+
+const extractTraceContext = (
+  headers: Headers
+): PropagatedContext | undefined => {
+  const match = TRACEPARENT_REGEX.exec(getHeader(headers, 'traceparent') ?? '')
+  if (!match) return undefined
+  const [, version, traceId, spanId, flags, rest] = match
+  // Version ff is invalid, version 00 has exactly four fields
+  if (version === 'ff' || (version === '00' && rest)) return undefined
+  if (ZERO_REGEX.test(traceId) || ZERO_REGEX.test(spanId)) return undefined
+
+  const traceState = getHeader(headers, 'tracestate')
+  // A Beacon caller tells us its full span id, so parent_span_id matches its span_id
+  const beaconSpanId = parseTraceState(traceState)
+    .find((entry) => entry.startsWith(`${TRACESTATE_KEY}=`))
+    ?.substring(TRACESTATE_KEY.length + 1)
+
+  return {
+    traceId: toUuid(traceId),
+    spanId:
+      beaconSpanId && toHexId(beaconSpanId, 16) === spanId
+        ? beaconSpanId
+        : spanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    traceState: traceState || undefined,
+  }
+}
+
+const normalizeB3TraceId = (traceId: string): string | undefined => {
+  const hex = traceId.toLowerCase()
+  if (!HEX_REGEX.test(hex) || ZERO_REGEX.test(hex)) return undefined
+  if (hex.length === 32) return toUuid(hex)
+  if (hex.length === 16) return toUuid(hex.padStart(32, '0'))
+  return undefined
+}
+
+const parseB3Sampled = (value: string | undefined): boolean | undefined => {
+  if (value === '1' || value === 'd' || value === 'true') return true
+  if (value === '0' || value === 'false') return false
+  return undefined
+}
+
+const extractB3 = (headers: Headers): PropagatedContext | undefined => {
+  const single = getHeader(headers, 'b3')
+  const [traceId, spanId, sampled] = single
+    ? single.split('-')
+    : [
+        getHeader(headers, 'x-b3-traceid'),
+        getHeader(headers, 'x-b3-spanid'),
+        getHeader(headers, 'x-b3-flags') === '1'
+          ? 'd'
+          : getHeader(headers, 'x-b3-sampled'),
+      ]
+
+  const normalized = traceId ? normalizeB3TraceId(traceId) : undefined
+  if (!normalized || !spanId || !/^[0-9a-f]{16}$/i.test(spanId)) {
+    return undefined
+  }
+  return {
+    traceId: normalized,
+    spanId: spanId.toLowerCase(),
+    sampled: parseB3Sampled(sampled),
+  }
+}
+
+const extractRequestId = (headers: Headers): PropagatedContext | undefined => {
+  const requestId = getHeader(headers, 'x-request-id')
+  return requestId && requestId.length <= MAX_REQUEST_ID_LENGTH
+    ? { traceId: requestId }
+    : undefined
+}
+
+const extractors: Record<
+  PropagationFormat,
+  (headers: Headers) => PropagatedContext | undefined
+> = {
+  tracecontext: extractTraceContext,
+  b3: extractB3,
+  'request-id': extractRequestId,
+}
+
+// Reads the caller's trace context; the first format that is present wins
+export const extract = (
+  headers: Headers,
+  formats: PropagationFormat[] = ['tracecontext']
+): PropagatedContext | undefined => {
+  for (const format of formats) {
+    const context = extractors[format](headers)
+    if (context) return context
+  }
+  return undefined
+}
+
+// Writes the active (or given) trace context into outgoing headers; the
+// result is typed so traceparent and friends can be read back
+export const inject = <T extends Record<string, unknown>>(
+  headers: T,
+  context: PropagatedContext | undefined = executionContext.getStore(),
+  formats: PropagationFormat[] = ['tracecontext']
+): T & Record<string, string> => {
+  if (!context) return headers as T & Record<string, string>
+
+  const target = headers as Record<string, unknown>
+  const traceId = toHexId(context.traceId, 32)
+  const spanId = toHexId(context.spanId || context.traceId, 16)
+  const sampled = context.sampled !== false
+
+  if (formats.includes('tracecontext')) {
+    target['traceparent'] = `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`
+    // Our entry goes first, entries of other vendors are kept
+    const entries = [
+      ...(context.spanId ? [`${TRACESTATE_KEY}=${context.spanId}`] : []),
+      ...parseTraceState(context.traceState).filter(
+        (entry) => !entry.startsWith(`${TRACESTATE_KEY}=`)
+      ),
+    ].slice(0, MAX_TRACESTATE_ENTRIES)
+    if (entries.length > 0) {
+      target['tracestate'] = entries.join(',')
+    }
+  }
+  if (formats.includes('b3')) {
+    target['b3'] = `${traceId}-${spanId}-${sampled ? '1' : '0'}`
+  }
+  if (formats.includes('request-id')) {
+    target['x-request-id'] = context.traceId
+  }
+  return headers as T & Record<string, string>
+}
+
+// Runs fn as part of the caller's trace: spans started inside continue its
+// trace id, with the caller's span as their parent
+export const continueTrace = <T>(context: PropagatedContext, fn: () => T): T =>
+  executionContext.run(
+    {
+      traceId: context.traceId,
+      spanId: context.spanId ?? '',
+      logCount: 0,
+      sampled: context.sampled,
+      traceState: context.traceState,
+    },
+    fn
+  )
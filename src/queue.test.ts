@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createBoundedQueue } from './queue.js'
+import { configWith, event } from '../test/fixtures.js'
+
+describe('Bounded Queue', () => {
+  it('should drop the oldest event when full with drop-oldest', () => {
+    const onDrop = vi.fn()
+    const queue = createBoundedQueue(
+      configWith({ maxQueueEvents: 3, overflowPolicy: 'drop-oldest' }),
+      onDrop
+    )
+
+    ;['1', '2', '3', '4'].forEach((m) => queue.push(event(m)))
+
+    expect(queue.take(10).map((e) => e.message)).toEqual(['2', '3', '4'])
+    expect(onDrop).toHaveBeenCalledWith(
+      'max_events',
+      expect.objectContaining({ message: '1' })
+    )
+  })
+
+  it('should reject the incoming event when full with drop-newest', () => {
+    const onDrop = vi.fn()
+    const queue = createBoundedQueue(
+      configWith({ maxQueueEvents: 3, overflowPolicy: 'drop-newest' }),
+      onDrop
+    )
+
+    ;['1', '2', '3', '4'].forEach((m) => queue.push(event(m)))
+
+    expect(queue.take(10).map((e) => e.message)).toEqual(['1', '2', '3'])
+    expect(onDrop).toHaveBeenCalledWith(
+      'max_events',
+      expect.objectContaining({ message: '4' })
+    )
+  })
+
+  it('should evict the lowest severity first with drop-lowest-severity', () => {
+    const onDrop = vi.fn()
+    const queue = createBoundedQueue(
+      configWith({ maxQueueEvents: 3, overflowPolicy: 'drop-lowest-severity' }),
+      onDrop
+    )
+
+    queue.push(event('error', { severity: 'error' }))
+    queue.push(event('debug', { severity: 'debug' }))
+    queue.push(event('info', { severity: 'info' }))
+    queue.push(event('warn', { severity: 'warn' }))
+    queue.push(event('another debug', { severity: 'debug' })) // Lower than everything queued
+
+    expect(queue.take(10).map((e) => e.message)).toEqual([
+      'error',
+      'info',
+      'warn',
+    ])
+    expect(onDrop.mock.calls.map((call) => call[1].message)).toEqual([
+      'debug',
+      'another debug',
+    ])
+  })
+
+  it('should enforce the byte capacity', () => {
+    const onDrop = vi.fn()
+    const size = Buffer.byteLength(JSON.stringify(event('x')))
+    const queue = createBoundedQueue(
+      configWith({ maxQueueEvents: 100, maxQueueBytes: size * 2 }),
+      onDrop
+    )
+
+    ;['a', 'b', 'c'].forEach((m) => queue.push(event(m)))
+    queue.push(event('x'.repeat(size * 3)))
+
+    expect(queue.size()).toBe(2)
+    expect(queue.bytes()).toBe(size * 2)
+    expect(onDrop).toHaveBeenCalledWith('max_bytes', expect.anything())
+    expect(onDrop).toHaveBeenCalledWith('oversized_event', expect.anything())
+  })
+})
@@ -0,0 +1,134 @@
+import { LogEvent } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== BOUNDED SEND QUEUE ======
+
+export type OverflowPolicy =
+  | 'drop-oldest'
+  | 'drop-newest'
+  | 'drop-lowest-severity'
+
+export type DropReason =
+  | 'max_events' // Queue held maxQueueEvents events
+  | 'max_bytes' // Queue held maxQueueBytes bytes
+  | 'oversized_event' // A single event larger than maxQueueBytes
+  | 'shutdown' // Event logged after the exporter was shut down
+  | 'send_failed' // The transport could not deliver the batch
+  | 'spool_full' // Delivery failed and the spool reached maxSpoolBytes
+  | 'circuit_open' // Short-circuited by the open breaker and no spool is set up
+  | 'invalid_event' // Failed validation even after auto-repair
+  | 'rejected' // The server refused the batch with a permanent error status
+
+export type BoundedQueue = {
+  push: (logEvent: LogEvent) => void
+  take: (count: number) => LogEvent[]
+  size: () => number
+  bytes: () => number
+}
+
+type QueuedEvent = {
+  event: LogEvent
+  bytes: number
+}
+
+const SEVERITY_RANK: Record<NonNullable<LogEvent['severity']>, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  fatal: 4,
+}
+
+const severityRank = (event: LogEvent): number =>
+  SEVERITY_RANK[event.severity ?? 'info'] ?? SEVERITY_RANK.info
+
+// Index of the oldest event with the lowest severity
+const lowestSeverityIndex = (items: QueuedEvent[]): number => {
+  let lowest = 0
+  for (let i = 1; i < items.length; i++) {
+    if (severityRank(items[i].event) < severityRank(items[lowest].event)) {
+      lowest = i
+    }
+  }
+  return lowest
+}
+
+// FIFO queue capped by event count and serialized size. When full, the
+// overflow policy picks which event is sacrificed and onDrop reports it.
+export const createBoundedQueue = (
+  config: BeaconConfig = DEFAULT_CONFIG,
+  onDrop: (reason: DropReason, logEvent: LogEvent) => void = () => {}
+): BoundedQueue => {
+  const items: QueuedEvent[] = []
+  let totalBytes = 0
+
+  const drop = (reason: DropReason, logEvent: LogEvent): void => {
+    if (debugLogging) {
+      console.log(`🗑️ Dropping event (${reason}):`, logEvent.message)
+    }
+    onDrop(reason, logEvent)
+  }
+
+  const removeAt = (index: number): LogEvent => {
+    const [removed] = items.splice(index, 1)
+    totalBytes -= removed.bytes
+    return removed.event
+  }
+
+  const isFull = (incomingBytes: number): DropReason | undefined => {
+    if (items.length + 1 > config.maxQueueEvents) return 'max_events'
+    if (totalBytes + incomingBytes > config.maxQueueBytes) return 'max_bytes'
+    return undefined
+  }
+
+  const push = (logEvent: LogEvent): void => {
+    const bytes = Buffer.byteLength(JSON.stringify(logEvent))
+    if (bytes > config.maxQueueBytes) {
+      drop('oversized_event', logEvent)
+      return
+    }
+
+    let reason = isFull(bytes)
+    while (reason) {
+      if (config.overflowPolicy === 'drop-newest' || items.length === 0) {
+        drop(reason, logEvent)
+        return
+      }
+
+      const victim =
+        config.overflowPolicy === 'drop-lowest-severity'
+          ? lowestSeverityIndex(items)
+          : 0
+      if (
+        config.overflowPolicy === 'drop-lowest-severity' &&
+        severityRank(logEvent) < severityRank(items[victim].event)
+      ) {
+        // The incoming event is the least important one
+        drop(reason, logEvent)
+        return
+      }
+
+      drop(reason, removeAt(victim))
+      reason = isFull(bytes)
+    }
+
+    items.push({ event: logEvent, bytes })
+    totalBytes += bytes
+  }
+
+  const take = (count: number): LogEvent[] => {
+    const taken = items.splice(0, count)
+    taken.forEach((item) => {
+      totalBytes -= item.bytes
+    })
+    return taken.map((item) => item.event)
+  }
+
+  return {
+    push,
+    take,
+    size: () => items.length,
+    bytes: () => totalBytes,
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createLogLimiter } from './rate-limit.js'
+import { LogEvent } from './beacon.js'
+import { configWith, event } from '../test/fixtures.js'
+
+describe('Log Limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should collapse identical messages into a repeated summary', () => {
+    const emit = vi.fn()
+    const limiter = createLogLimiter(emit, configWith({ dedupeWindowMs: 1000 }))
+
+    expect(limiter.allow(event('DB down', { severity: 'error' }))).toBe(true)
+    vi.advanceTimersByTime(100)
+    expect(limiter.allow(event('DB down', { severity: 'error' }))).toBe(false)
+    vi.advanceTimersByTime(100)
+    expect(limiter.allow(event('DB down', { severity: 'error' }))).toBe(false)
+    expect(limiter.allow(event('Other failure'))).toBe(true)
+
+    vi.advanceTimersByTime(1000)
+
+    expect(emit).toHaveBeenCalledTimes(1)
+    expect(emit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'DB down (repeated 2 times)',
+        severity: 'error',
+        trace_info: {
+          custom_fields: {
+            repeated_count: 2,
+            first_timestamp: '2025-01-01T00:00:00.100Z',
+            last_timestamp: '2025-01-01T00:00:00.200Z',
+          },
+        },
+      })
+    )
+    expect(limiter.stats().suppressedDuplicates).toBe(2)
+    limiter.close()
+  })
+
+  it('should rate limit per severity', () => {
+    const limiter = createLogLimiter(
+      vi.fn(),
+      configWith({ rateLimitPerSeverity: { debug: 2 } })
+    )
+
+    expect(limiter.allow(event('a', { severity: 'debug' }))).toBe(true)
+    expect(limiter.allow(event('b', { severity: 'debug' }))).toBe(true)
+    expect(limiter.allow(event('c', { severity: 'debug' }))).toBe(false)
+    expect(limiter.allow(event('d', { severity: 'info' }))).toBe(true)
+
+    vi.advanceTimersByTime(500) // Refills one token
+    expect(limiter.allow(event('e', { severity: 'debug' }))).toBe(true)
+    expect(limiter.stats().rateLimited).toBe(1)
+  })
+
+  it('should rate limit per message key', () => {
+    const limiter = createLogLimiter(
+      vi.fn(),
+      configWith({ rateLimitPerMessage: 1 })
+    )
+
+    expect(limiter.allow(event('same'))).toBe(true)
+    expect(limiter.allow(event('same'))).toBe(false)
+    expect(limiter.allow(event('different'))).toBe(true)
+  })
+
+  it('should leave http and db events alone', () => {
+    const limiter = createLogLimiter(
+      vi.fn(),
+      configWith({ rateLimitPerMessage: 1, dedupeWindowMs: 1000 })
+    )
+    const dbEvent: LogEvent = { event_type: 'db', message: 'query' }
+
+    expect(limiter.allow(dbEvent)).toBe(true)
+    expect(limiter.allow(dbEvent)).toBe(true)
+    limiter.close()
+  })
+})
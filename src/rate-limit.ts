@@ -0,0 +1,182 @@
+import { LogEvent } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== DUPLICATE SUPPRESSION & RATE LIMITING ======
+
+export type LogLimiterStats = {
+  suppressedDuplicates: number
+  rateLimited: number
+}
+
+export type LogLimiter = {
+  // Returns false when the event must not be sent
+  allow: (logEvent: LogEvent) => boolean
+  stats: () => LogLimiterStats
+  close: () => void
+}
+
+type Bucket = {
+  tokens: number
+  refilledAt: number
+}
+
+type DuplicateWindow = {
+  last: LogEvent
+  count: number // Occurrences suppressed in this window
+  firstTimestamp: string // Of the first suppressed occurrence
+  lastTimestamp: string
+  openedAt: number
+}
+
+// Caps the number of message keys tracked at once
+const MAX_TRACKED_KEYS = 1000
+
+const messageKey = (logEvent: LogEvent): string =>
+  `${logEvent.severity ?? 'info'}:${logEvent.message}`
+
+// Token bucket allowing `perSecond` events per second with bursts of the same size
+const takeToken = (
+  buckets: Map<string, Bucket>,
+  key: string,
+  perSecond: number
+): boolean => {
+  const now = Date.now()
+  let bucket = buckets.get(key)
+  if (!bucket) {
+    if (buckets.size >= MAX_TRACKED_KEYS) {
+      buckets.delete(buckets.keys().next().value as string)
+    }
+    bucket = { tokens: perSecond, refilledAt: now }
+    buckets.set(key, bucket)
+  }
+  bucket.tokens = Math.min(
+    perSecond,
+    bucket.tokens + ((now - bucket.refilledAt) / 1000) * perSecond
+  )
+  bucket.refilledAt = now
+  if (bucket.tokens < 1) return false
+  bucket.tokens -= 1
+  return true
+}
+
+// Only plain log events are limited; http and db events carry trace structure.
+// Identical messages within dedupeWindowMs are collapsed: the first one is
+// sent, the rest are counted and reported in one "repeated N times" event
+// when the window closes.
+export const createLogLimiter = (
+  emit: (logEvent: LogEvent) => void,
+  config: BeaconConfig = DEFAULT_CONFIG
+): LogLimiter => {
+  const severityBuckets = new Map<string, Bucket>()
+  const messageBuckets = new Map<string, Bucket>()
+  const windows = new Map<string, DuplicateWindow>()
+  let timer: ReturnType<typeof setInterval> | undefined
+  let suppressedDuplicates = 0
+  let rateLimited = 0
+
+  const closeWindow = (key: string, window: DuplicateWindow): void => {
+    windows.delete(key)
+    if (window.count === 0) return
+    emit({
+      ...window.last,
+      message: `${window.last.message} (repeated ${window.count} times)`,
+      timestamp: new Date().toISOString(),
+      trace_info: {
+        ...window.last.trace_info,
+        custom_fields: {
+          ...window.last.trace_info?.custom_fields,
+          repeated_count: window.count,
+          first_timestamp: window.firstTimestamp,
+          last_timestamp: window.lastTimestamp,
+        },
+      },
+    })
+  }
+
+  const sweep = (): void => {
+    const cutoff = Date.now() - config.dedupeWindowMs
+    for (const [key, window] of windows) {
+      if (window.openedAt <= cutoff) closeWindow(key, window)
+    }
+    if (windows.size === 0) stopTimer()
+  }
+
+  const stopTimer = (): void => {
+    if (timer) {
+      clearInterval(timer)
+      timer = undefined
+    }
+  }
+
+  const isDuplicate = (key: string, logEvent: LogEvent): boolean => {
+    const now = Date.now()
+    const timestamp = logEvent.timestamp ?? new Date(now).toISOString()
+    const window = windows.get(key)
+
+    if (window && now - window.openedAt < config.dedupeWindowMs) {
+      window.count += 1
+      if (window.count === 1) window.firstTimestamp = timestamp
+      window.last = logEvent
+      window.lastTimestamp = timestamp
+      return true
+    }
+    if (window) closeWindow(key, window)
+
+    if (windows.size >= MAX_TRACKED_KEYS) {
+      const [oldestKey, oldest] = windows.entries().next().value as [
+        string,
+        DuplicateWindow
+      ]
+      closeWindow(oldestKey, oldest)
+    }
+    windows.set(key, {
+      last: logEvent,
+      count: 0,
+      firstTimestamp: timestamp,
+      lastTimestamp: timestamp,
+      openedAt: now,
+    })
+    if (!timer) {
+      timer = setInterval(sweep, config.dedupeWindowMs)
+      // Never keep the process alive just to report repeats
+      timer.unref?.()
+    }
+    return false
+  }
+
+  const allow = (logEvent: LogEvent): boolean => {
+    if (logEvent.event_type !== 'log') return true
+
+    const key = messageKey(logEvent)
+    if (config.dedupeWindowMs > 0 && isDuplicate(key, logEvent)) {
+      suppressedDuplicates += 1
+      return false
+    }
+
+    const severity = logEvent.severity ?? 'info'
+    const severityLimit = config.rateLimitPerSeverity[severity]
+    const limited =
+      (severityLimit !== undefined &&
+        !takeToken(severityBuckets, severity, severityLimit)) ||
+      (config.rateLimitPerMessage > 0 &&
+        !takeToken(messageBuckets, key, config.rateLimitPerMessage))
+    if (limited) {
+      rateLimited += 1
+      if (debugLogging) {
+        console.log('🚦 Rate limited log:', logEvent.message)
+      }
+      return false
+    }
+    return true
+  }
+
+  return {
+    allow,
+    stats: () => ({ suppressedDuplicates, rateLimited }),
+    close: () => {
+      windows.forEach((window, key) => closeWindow(key, window))
+      stopTimer()
+    },
+  }
+}
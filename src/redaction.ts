@@ -0,0 +1,218 @@
+import { createHash } from 'crypto'
+import type { DbInfo, ErrorInfo, LogEvent, TraceInfo } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== PII REDACTION ======
+
+export type RedactionDetector =
+  | 'email'
+  | 'jwt'
+  | 'bearer'
+  | 'credit_card'
+  | 'ipv4'
+
+// mask: '[REDACTED:email]', hash: '[REDACTED:email:1f2e3d4c5b6a]' so equal
+// values can still be correlated. Public IPv4 addresses lose their last
+// octet in either mode.
+export type RedactionMode = 'mask' | 'hash'
+
+export type RedactionRule = {
+  name: string // Reported in debug counts and the default replacement
+  pattern: RegExp
+  replacement?: string // Fixed replacement, may reference groups like $1
+}
+
+// Returns a copy of the event with sensitive values replaced
+export type Redactor = (logEvent: LogEvent) => LogEvent
+
+const BEARER_REGEX = /\b(Bearer)\s+([\w.~+/-]+=*)/gi
+const JWT_REGEX = /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g
+const EMAIL_REGEX = /[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}/gi
+const CARD_REGEX = /\b\d(?:[ -]?\d){12,18}\b/g
+const IPV4_REGEX = /\b(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\b/g
+
+// Free text fields of trace_info and db_info; custom_fields are walked
+const TEXT_FIELDS = [
+  'http_path',
+  'http_remote_ip',
+  'span_status_message',
+  'db_query',
+  'db_error_message',
+] as const
+
+// Bearer runs before jwt so "Bearer eyJ..." is counted once
+const DETECTOR_ORDER: RedactionDetector[] = [
+  'bearer',
+  'jwt',
+  'email',
+  'credit_card',
+  'ipv4',
+]
+
+// Rejects order numbers and timestamps that merely look like card numbers
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// Loopback and private ranges identify hosts of ours, not people
+const isInternalAddress = ([a, b]: number[]): boolean =>
+  a === 127 ||
+  a === 10 ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168)
+
+// password, user_password and X-Api-Key all match after normalization
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().replace(/[-_\s]/g, '')
+
+// Scrubs messages, paths, queries, error details and custom_fields. The
+// exporter applies it to every event before validation and transport.
+export const createRedactor = (
+  config: BeaconConfig = DEFAULT_CONFIG
+): Redactor => {
+  const deniedKeys = config.redactionKeys.map(normalizeKey)
+  const detectors = DETECTOR_ORDER.filter((detector) =>
+    config.redactionDetectors.includes(detector)
+  )
+  // replace() needs the global flag to catch every occurrence
+  const rules = config.redactionRules.map((rule) => ({
+    ...rule,
+    pattern: rule.pattern.global
+      ? rule.pattern
+      : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`),
+  }))
+
+  return (logEvent) => {
+    const counts: Record<string, number> = {}
+    const count = (name: string, times = 1): void => {
+      counts[name] = (counts[name] ?? 0) + times
+    }
+
+    const censor = (name: string, value: string): string => {
+      count(name)
+      return config.redactionMode === 'hash'
+        ? `[REDACTED:${name}:${createHash('sha256')
+            .update(value)
+            .digest('hex')
+            .substring(0, 12)}]`
+        : `[REDACTED:${name}]`
+    }
+
+    const applyDetector = (
+      text: string,
+      detector: RedactionDetector
+    ): string => {
+      switch (detector) {
+        case 'bearer':
+          return text.replace(
+            BEARER_REGEX,
+            (_match, scheme: string, token: string) =>
+              `${scheme} ${censor('bearer', token)}`
+          )
+        case 'jwt':
+          return text.replace(JWT_REGEX, (match) => censor('jwt', match))
+        case 'email':
+          return text.replace(EMAIL_REGEX, (match) => censor('email', match))
+        case 'credit_card':
+          return text.replace(CARD_REGEX, (match) =>
+            passesLuhn(match.replace(/\D/g, ''))
+              ? censor('credit_card', match)
+              : match
+          )
+        case 'ipv4':
+          // The last octet is zeroed, so the result is still a valid address
+          return text.replace(
+            IPV4_REGEX,
+            (match, a: string, b: string, c: string, d: string) => {
+              const octets = [a, b, c, d].map(Number)
+              if (octets.some((octet) => octet > 255)) return match
+              if (d === '0' || isInternalAddress(octets)) return match
+              count('ipv4')
+              return `${a}.${b}.${c}.0`
+            }
+          )
+      }
+    }
+
+    const applyRule = (text: string, rule: RedactionRule): string => {
+      if (rule.replacement === undefined) {
+        return text.replace(rule.pattern, (match) => censor(rule.name, match))
+      }
+      const matches = text.match(rule.pattern)?.length ?? 0
+      if (matches === 0) return text
+      count(rule.name, matches)
+      return text.replace(rule.pattern, rule.replacement)
+    }
+
+    // Custom rules first, they know more about the application
+    const redactText = (text: string): string =>
+      detectors.reduce(applyDetector, rules.reduce(applyRule, text))
+
+    const redactValue = (value: unknown): unknown => {
+      if (typeof value === 'string') return redactText(value)
+      if (Array.isArray(value)) return value.map(redactValue)
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, nested]) => [
+            key,
+            deniedKeys.some((denied) => normalizeKey(key).endsWith(denied))
+              ? censor('key', JSON.stringify(nested) ?? String(nested))
+              : redactValue(nested),
+          ])
+        )
+      }
+      return value
+    }
+
+    const redactFields = <T extends TraceInfo | DbInfo>(info: T): T => {
+      const result: Record<string, unknown> = { ...info }
+      TEXT_FIELDS.forEach((field) => {
+        const value = result[field]
+        if (typeof value === 'string') result[field] = redactText(value)
+      })
+      if (info.custom_fields) {
+        result['custom_fields'] = redactValue(info.custom_fields)
+      }
+      return result as T
+    }
+
+    const redactError = (error: ErrorInfo): ErrorInfo => {
+      const result: ErrorInfo = { ...error, message: redactText(error.message) }
+      if (error.stack) result.stack = redactText(error.stack)
+      if (error.properties) {
+        result.properties = redactValue(error.properties) as Record<
+          string,
+          unknown
+        >
+      }
+      if (error.cause) result.cause = redactError(error.cause)
+      if (error.errors) result.errors = error.errors.map(redactError)
+      return result
+    }
+
+    const redacted: LogEvent = {
+      ...logEvent,
+      message: redactText(logEvent.message),
+    }
+    if (logEvent.trace_info) {
+      redacted.trace_info = redactFields(logEvent.trace_info)
+    }
+    if (logEvent.db_info) redacted.db_info = redactFields(logEvent.db_info)
+    if (logEvent.error) redacted.error = redactError(logEvent.error)
+
+    if (debugLogging && Object.keys(counts).length > 0) {
+      console.log('🧹 Redacted values before sending:', counts)
+    }
+    return redacted
+  }
+}
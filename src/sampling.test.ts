@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createTailSampler, shouldSampleTrace, traceRatio } from './sampling.js'
+import { parseSampleRatio } from './config.js'
+import { configWith, event } from '../test/fixtures.js'
+
+// traceRatio maps the first 8 hex digits onto [0, 1)
+const LOW_TRACE = '10000000-0000-4000-8000-000000000000' // ≈ 0.06
+const HIGH_TRACE = 'f0000000-0000-4000-8000-000000000000' // ≈ 0.94
+
+const config = configWith({
+  sampleRatio: 0.5,
+  samplingRules: [
+    { route: '/health', ratio: 0 },
+    { route: '/api/orders*', method: 'POST', ratio: 1 },
+  ],
+  tailSampleRatio: 0.5,
+  tailLatencyThresholdMs: 1000,
+  tailDecisionWait: 30000,
+  tailMaxTraces: 2,
+})
+
+const finished = (traceId: string, statusCode = 200, durationMs = 10) =>
+  event('message', {
+    trace_id: traceId,
+    event_type: 'http',
+    trace_info: {
+      http_finished: true,
+      http_status_code: statusCode,
+      http_duration_ms: durationMs,
+    },
+  })
+
+describe('Head Sampling', () => {
+  it('should be deterministic per trace id', () => {
+    expect(traceRatio(LOW_TRACE)).toBeCloseTo(0.0625)
+    expect(shouldSampleTrace({ traceId: LOW_TRACE }, config)).toBe(true)
+    expect(shouldSampleTrace({ traceId: HIGH_TRACE }, config)).toBe(false)
+  })
+
+  it('should apply the first matching route rule', () => {
+    expect(
+      shouldSampleTrace({ traceId: LOW_TRACE, route: '/health' }, config)
+    ).toBe(false)
+    expect(
+      shouldSampleTrace(
+        { traceId: HIGH_TRACE, route: '/api/orders/:id', method: 'post' },
+        config
+      )
+    ).toBe(true)
+    expect(
+      shouldSampleTrace(
+        { traceId: HIGH_TRACE, route: '/api/orders/:id', method: 'GET' },
+        config
+      )
+    ).toBe(false)
+  })
+
+  it('should keep every trace for empty or malformed ratios', () => {
+    expect(parseSampleRatio(undefined)).toBe(1)
+    expect(parseSampleRatio('')).toBe(1)
+    expect(parseSampleRatio('10%')).toBe(1)
+    expect(parseSampleRatio('0.25')).toBe(0.25)
+    expect(parseSampleRatio('5')).toBe(1)
+    expect(parseSampleRatio(-1)).toBe(0)
+    expect(
+      shouldSampleTrace(
+        { traceId: HIGH_TRACE },
+        { ...config, sampleRatio: NaN }
+      )
+    ).toBe(true)
+  })
+})
+
+describe('Tail Sampling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should hold events until the trace finishes', () => {
+    const forward = vi.fn()
+    const sampler = createTailSampler(forward, config)
+
+    sampler.add(event('message', { trace_id: LOW_TRACE }))
+    expect(forward).not.toHaveBeenCalled()
+
+    sampler.add(finished(LOW_TRACE))
+    expect(forward).toHaveBeenCalledTimes(2)
+    sampler.close()
+  })
+
+  it('should always keep errors, 5xx and slow traces', () => {
+    const forward = vi.fn()
+    const sampler = createTailSampler(forward, config)
+
+    sampler.add(event('message', { trace_id: HIGH_TRACE, severity: 'error' }))
+    sampler.add(finished(HIGH_TRACE))
+    expect(forward).toHaveBeenCalledTimes(2)
+
+    const slowTrace = 'f1000000-0000-4000-8000-000000000000'
+    sampler.add(finished(slowTrace, 200, 1500))
+    const failedTrace = 'f2000000-0000-4000-8000-000000000000'
+    sampler.add(finished(failedTrace, 503))
+    expect(forward).toHaveBeenCalledTimes(4)
+    sampler.close()
+  })
+
+  it('should sample uneventful traces and route late events', () => {
+    const forward = vi.fn()
+    const sampler = createTailSampler(forward, config)
+
+    sampler.add(finished(HIGH_TRACE))
+    sampler.add(event('message', { trace_id: HIGH_TRACE })) // Late event follows the drop decision
+    expect(forward).not.toHaveBeenCalled()
+    sampler.close()
+  })
+
+  it('should decide unfinished traces after tailDecisionWait', () => {
+    const forward = vi.fn()
+    const sampler = createTailSampler(forward, config)
+
+    sampler.add(event('message', { trace_id: LOW_TRACE }))
+    vi.advanceTimersByTime(30000)
+
+    expect(forward).toHaveBeenCalledTimes(1)
+    sampler.close()
+  })
+
+  it('should decide the oldest trace early when tailMaxTraces is reached', () => {
+    const forward = vi.fn()
+    const sampler = createTailSampler(forward, config)
+
+    sampler.add(event('oldest', { trace_id: LOW_TRACE }))
+    sampler.add(
+      event('message', { trace_id: '20000000-0000-4000-8000-000000000000' })
+    )
+    sampler.add(
+      event('message', { trace_id: '30000000-0000-4000-8000-000000000000' })
+    )
+
+    expect(forward).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'oldest' })
+    )
+    sampler.close()
+  })
+})
@@ -0,0 +1,179 @@
+import { LogEvent } from './beacon.js'
+import {
+  DEFAULT_CONFIG,
+  parseSampleRatio,
+  type BeaconConfig,
+} from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== TRACE SAMPLING ======
+
+export type SamplingRule = {
+  route: string // Exact route or prefix ending in '*'
+  method?: string
+  ratio: number // 0..1, fraction of matching traces kept
+}
+
+export type SamplingContext = {
+  traceId: string
+  method?: string
+  route?: string
+}
+
+export type TailSampler = {
+  add: (logEvent: LogEvent) => void
+  drain: () => void // Decides every buffered trace right away
+  close: () => void
+}
+
+// Maps a trace id onto [0, 1). The same trace id always yields the same value,
+// so every service that sees the trace makes the same sampling decision.
+export const traceRatio = (traceId: string): number => {
+  const hex = traceId.replace(/-/g, '').substring(0, 8)
+  const value = parseInt(hex, 16)
+  return Number.isNaN(value) ? Math.random() : value / 0x100000000
+}
+
+const matchesRoute = (pattern: string, route: string): boolean =>
+  pattern.endsWith('*')
+    ? route.startsWith(pattern.slice(0, -1))
+    : route === pattern
+
+// Head sampling: decided once when a trace starts. The first matching rule
+// wins, otherwise sampleRatio applies.
+export const shouldSampleTrace = (
+  { traceId, method, route }: SamplingContext,
+  config: BeaconConfig = DEFAULT_CONFIG
+): boolean => {
+  const rule = config.samplingRules.find(
+    (candidate) =>
+      route !== undefined &&
+      matchesRoute(candidate.route, route) &&
+      (!candidate.method ||
+        candidate.method.toUpperCase() === method?.toUpperCase())
+  )
+  // Ratios set in code get the same treatment as BEACON_SAMPLE_RATIO
+  const ratio = parseSampleRatio(rule?.ratio ?? config.sampleRatio)
+  return ratio >= 1 || traceRatio(traceId) < ratio
+}
+
+// Traces worth keeping regardless of tailSampleRatio
+const isInterestingTrace = (
+  events: LogEvent[],
+  config: BeaconConfig
+): boolean =>
+  events.some(
+    (event) =>
+      event.severity === 'error' ||
+      event.severity === 'fatal' ||
+      !!event.trace_info?.db_error_code ||
+      (event.trace_info?.http_status_code ?? 0) >= 500 ||
+      (event.trace_info?.http_duration_ms ?? 0) >= config.tailLatencyThresholdMs
+  )
+
+type PendingTrace = {
+  events: LogEvent[]
+  startedAt: number
+}
+
+// Tail sampling: buffers each trace until endHttpTrace (http_finished) arrives
+// and only then decides. Traces that never finish are decided after
+// tailDecisionWait, and at most tailMaxTraces traces are buffered at once.
+export const createTailSampler = (
+  forward: (logEvent: LogEvent) => void,
+  config: BeaconConfig = DEFAULT_CONFIG
+): TailSampler => {
+  const pending = new Map<string, PendingTrace>()
+  // Remembered decisions route late events of a decided trace
+  const decided = new Map<string, boolean>()
+  let timer: ReturnType<typeof setInterval> | undefined
+
+  const remember = (traceId: string, keep: boolean): void => {
+    decided.set(traceId, keep)
+    if (decided.size > config.tailMaxTraces) {
+      decided.delete(decided.keys().next().value as string)
+    }
+  }
+
+  const decide = (traceId: string): void => {
+    const trace = pending.get(traceId)
+    if (!trace) return
+    pending.delete(traceId)
+
+    const keep =
+      isInterestingTrace(trace.events, config) ||
+      traceRatio(traceId) < config.tailSampleRatio
+    remember(traceId, keep)
+
+    if (debugLogging) {
+      console.log(
+        `🎯 Tail sampling ${keep ? 'kept' : 'dropped'} trace ${traceId} (${
+          trace.events.length
+        } events)`
+      )
+    }
+    if (keep) {
+      trace.events.forEach((event) => forward(event))
+    }
+    if (pending.size === 0) {
+      stopTimer()
+    }
+  }
+
+  const sweep = (): void => {
+    const cutoff = Date.now() - config.tailDecisionWait
+    for (const [traceId, trace] of pending) {
+      if (trace.startedAt <= cutoff) decide(traceId)
+    }
+  }
+
+  const startTimer = (): void => {
+    if (timer) return
+    timer = setInterval(sweep, config.tailDecisionWait)
+    // Never keep the process alive just to sample traces
+    timer.unref?.()
+  }
+
+  const stopTimer = (): void => {
+    if (timer) {
+      clearInterval(timer)
+      timer = undefined
+    }
+  }
+
+  const add = (logEvent: LogEvent): void => {
+    const traceId = logEvent.trace_id
+    if (!traceId) {
+      forward(logEvent)
+      return
+    }
+
+    const decision = decided.get(traceId)
+    if (decision !== undefined) {
+      if (decision) forward(logEvent)
+      return
+    }
+
+    let trace = pending.get(traceId)
+    if (!trace) {
+      if (pending.size >= config.tailMaxTraces) {
+        // Make room by deciding the oldest trace early
+        decide(pending.keys().next().value as string)
+      }
+      trace = { events: [], startedAt: Date.now() }
+      pending.set(traceId, trace)
+      startTimer()
+    }
+    trace.events.push(logEvent)
+
+    if (logEvent.trace_info?.http_finished) {
+      decide(traceId)
+    }
+  }
+
+  const drain = (): void => {
+    Array.from(pending.keys()).forEach(decide)
+  }
+
+  return { add, drain, close: stopTimer }
+}
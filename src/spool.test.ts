@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+// Mock the health check - must be hoisted
+vi.mock('./beacon.js', () => ({
+  checkBeaconHealth: vi.fn(),
+}))
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import { createSpool } from './spool.js'
+import { checkBeaconHealth, LogEvent } from './beacon.js'
+import type { BeaconConfig } from './config.js'
+import { configWith, event } from '../test/fixtures.js'
+
+const mockCheckBeaconHealth = vi.mocked(checkBeaconHealth)
+
+describe('Disk Spool', () => {
+  let dir: string
+  let config: BeaconConfig
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'beacon-spool-'))
+    config = configWith({ spoolDir: dir, batchSize: 2 })
+    mockCheckBeaconHealth.mockReset()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should replay spooled events in order once Beacon is healthy', async () => {
+    const send = vi.fn().mockResolvedValue(true)
+    const spool = createSpool(config, send)
+
+    await spool.append([event('1'), event('2')])
+    await spool.append([event('3')])
+
+    mockCheckBeaconHealth.mockResolvedValue(false)
+    await spool.replay()
+    expect(send).not.toHaveBeenCalled()
+
+    mockCheckBeaconHealth.mockResolvedValue(true)
+    await spool.replay()
+    spool.close()
+
+    const replayed = send.mock.calls.flatMap((call) =>
+      call[0].map((e: LogEvent) => e.message)
+    )
+    expect(replayed).toEqual(['1', '2', '3'])
+    expect(existsSync(join(dir, 'beacon-spool.ndjson'))).toBe(false)
+    expect(existsSync(join(dir, 'beacon-spool.replay.ndjson'))).toBe(false)
+  })
+
+  it('should replay the spool in batchSize chunks', async () => {
+    mockCheckBeaconHealth.mockResolvedValue(true)
+    const send = vi.fn().mockResolvedValue(true)
+    const spool = createSpool(config, send)
+
+    await spool.append(['1', '2', '3', '4', '5'].map((m) => event(m)))
+    await spool.replay()
+    spool.close()
+
+    expect(send.mock.calls.map((call) => call[0].length)).toEqual([2, 2, 1])
+  })
+
+  it('should keep undelivered events ahead of newer ones', async () => {
+    mockCheckBeaconHealth.mockResolvedValue(true)
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false)
+    const spool = createSpool(config, send)
+
+    await spool.append([event('1'), event('2'), event('3'), event('4')])
+    await spool.replay()
+    await spool.append([event('5')])
+    spool.close()
+
+    const remaining = readFileSync(join(dir, 'beacon-spool.ndjson'), 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).message)
+    expect(remaining).toEqual(['3', '4', '5'])
+  })
+
+  it('should pick up an interrupted replay after a restart', async () => {
+    mockCheckBeaconHealth.mockResolvedValue(true)
+    writeFileSync(
+      join(dir, 'beacon-spool.replay.ndjson'),
+      JSON.stringify(event('left over')) + '\n'
+    )
+    const send = vi.fn().mockResolvedValue(true)
+    const spool = createSpool(config, send)
+
+    await spool.replay()
+    spool.close()
+
+    expect(send).toHaveBeenCalledWith([event('left over')], config)
+  })
+
+  it('should refuse events beyond maxSpoolBytes', async () => {
+    const spool = createSpool({ ...config, maxSpoolBytes: 10 }, vi.fn())
+
+    expect(await spool.append([event('too big')])).toBe(false)
+    spool.close()
+  })
+})
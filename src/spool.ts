@@ -0,0 +1,226 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs'
+import { once } from 'events'
+import { join } from 'path'
+import { createInterface } from 'readline'
+import { finished } from 'stream/promises'
+import { LogEvent, checkBeaconHealth } from './beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+
+// ====== DISK SPOOL ======
+
+export type Spool = {
+  // Resolves false when the events did not fit under maxSpoolBytes
+  append: (logEvents: LogEvent[]) => Promise<boolean>
+  replay: () => Promise<void>
+  close: () => void
+}
+
+const SPOOL_FILE = 'beacon-spool.ndjson'
+const REPLAY_FILE = 'beacon-spool.replay.ndjson'
+
+const fileSize = async (path: string): Promise<number> => {
+  try {
+    return (await fs.stat(path)).size
+  } catch {
+    return 0
+  }
+}
+
+// Streams the lines of a file in chunks of up to size lines, so a spool of
+// any size is never held in memory. Stops early when handle resolves false.
+const readChunks = async (
+  path: string,
+  size: number,
+  handle: (lines: string[]) => Promise<boolean>
+): Promise<{ handled: number; complete: boolean }> => {
+  if ((await fileSize(path)) === 0) return { handled: 0, complete: true }
+
+  const input = createReadStream(path, { encoding: 'utf8' })
+  const lines = createInterface({ input, crlfDelay: Infinity })
+  let handled = 0
+  let chunk: string[] = []
+  try {
+    for await (const line of lines) {
+      if (line.length === 0) continue
+      chunk.push(line)
+      if (chunk.length < size) continue
+      if (!(await handle(chunk))) return { handled, complete: false }
+      handled += chunk.length
+      chunk = []
+    }
+    if (chunk.length > 0) {
+      if (!(await handle(chunk))) return { handled, complete: false }
+      handled += chunk.length
+    }
+    return { handled, complete: true }
+  } finally {
+    lines.close()
+    input.destroy()
+  }
+}
+
+const parseLines = (lines: string[]): LogEvent[] =>
+  lines.flatMap((line) => {
+    try {
+      return [JSON.parse(line) as LogEvent]
+    } catch {
+      return [] // Skip lines torn by a crash mid-write
+    }
+  })
+
+// Append-only NDJSON file for events that could not be delivered. Once the
+// Beacon server answers /health again the spool is replayed oldest-first.
+// A replay in progress is moved aside to REPLAY_FILE, so events that are not
+// delivered before a crash are picked up again on the next start.
+export const createSpool = (
+  config: BeaconConfig = DEFAULT_CONFIG,
+  send: (logEvents: LogEvent[], config: BeaconConfig) => Promise<boolean>
+): Spool => {
+  const dir = config.spoolDir as string
+  const spoolPath = join(dir, SPOOL_FILE)
+  const replayPath = join(dir, REPLAY_FILE)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let replaying = false
+  let closed = false
+
+  // File operations run one at a time so appends never interleave a rewrite
+  let pending: Promise<unknown> = fs
+    .mkdir(dir, { recursive: true })
+    .catch((error) => {
+      console.error('Failed to create Beacon spool directory:', error)
+    })
+  const serialize = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = pending.then(operation)
+    pending = result.catch(() => undefined)
+    return result
+  }
+
+  const scheduleReplay = (): void => {
+    if (timer || closed) return
+    timer = setTimeout(() => {
+      timer = undefined
+      replay()
+    }, config.spoolReplayInterval)
+    // Never keep the process alive just to replay telemetry
+    timer.unref?.()
+  }
+
+  const append = (logEvents: LogEvent[]): Promise<boolean> =>
+    serialize(async () => {
+      const data = logEvents.map((e) => JSON.stringify(e) + '\n').join('')
+      const bytes = Buffer.byteLength(data)
+      const used = (await fileSize(spoolPath)) + (await fileSize(replayPath))
+      if (used + bytes > config.maxSpoolBytes) {
+        if (debugLogging) {
+          console.log(`💾 Spool full, dropping ${logEvents.length} events`)
+        }
+        return false
+      }
+      await fs.appendFile(spoolPath, data)
+      if (debugLogging) {
+        console.log(`💾 Spooled ${logEvents.length} events to ${spoolPath}`)
+      }
+      scheduleReplay()
+      return true
+    })
+
+  // Puts the replay lines after the first `skip` back in front of anything
+  // spooled meanwhile
+  const restore = (skip = 0): Promise<void> =>
+    serialize(async () => {
+      if ((await fileSize(replayPath)) > 0) {
+        const tmpPath = `${spoolPath}.tmp`
+        const output = createWriteStream(tmpPath)
+        const write = async (lines: string[]): Promise<boolean> => {
+          if (!output.write(lines.map((l) => l + '\n').join(''))) {
+            await once(output, 'drain')
+          }
+          return true
+        }
+
+        let seen = 0
+        await readChunks(replayPath, config.batchSize, (lines) => {
+          const remaining = lines.slice(Math.max(0, skip - seen))
+          seen += lines.length
+          return write(remaining)
+        })
+        await readChunks(spoolPath, config.batchSize, write)
+        output.end()
+        await finished(output)
+
+        if ((await fileSize(tmpPath)) > 0) {
+          await fs.rename(tmpPath, spoolPath)
+        } else {
+          await fs.rm(tmpPath, { force: true })
+          await fs.rm(spoolPath, { force: true })
+        }
+      }
+      await fs.rm(replayPath, { force: true })
+    })
+
+  const replay = async (): Promise<void> => {
+    if (replaying || closed) return
+    replaying = true
+    try {
+      // Leftovers of an interrupted replay go first
+      await restore()
+
+      const spooled = await serialize(async () => {
+        if ((await fileSize(spoolPath)) === 0) return false
+        await fs.rename(spoolPath, replayPath)
+        return true
+      })
+      if (!spooled) return
+
+      if (!(await checkBeaconHealth(config))) {
+        if (debugLogging) {
+          console.log('💾 Beacon still unhealthy, postponing spool replay')
+        }
+        await restore()
+        scheduleReplay()
+        return
+      }
+
+      // Appends only touch spoolPath, so the replay file is read unlocked
+      const { handled: sent, complete } = await readChunks(
+        replayPath,
+        config.batchSize,
+        (lines) => send(parseLines(lines), config)
+      )
+
+      if (debugLogging) {
+        console.log(
+          `💾 Replayed ${sent} spooled events${complete ? '' : ', rest kept'}`
+        )
+      }
+      await restore(sent)
+      if (!complete) {
+        scheduleReplay()
+      }
+    } catch (error) {
+      console.error('Failed to replay Beacon spool:', error)
+      scheduleReplay()
+    } finally {
+      replaying = false
+    }
+  }
+
+  const close = (): void => {
+    closed = true
+    if (timer) {
+      clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  // Pick up events spooled by a previous process
+  Promise.all([fileSize(spoolPath), fileSize(replayPath)]).then(
+    ([spooled, interrupted]) => {
+      if (spooled + interrupted > 0) scheduleReplay()
+    }
+  )
+
+  return { append, replay, close }
+}
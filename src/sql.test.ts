@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeSql } from './sql.js'
+
+describe('SQL Analysis', () => {
+  it('should replace literals and placeholders with ?', () => {
+    const analysis = analyzeSql(
+      "select * from users where email = 'a@b.c' and age > 30 and id = $1"
+    )
+
+    expect(analysis.normalized).toBe(
+      'SELECT * FROM users WHERE email = ? AND age > ? AND id = ?'
+    )
+    expect(analysis.queryType).toBe('SELECT')
+    expect(analysis.tables).toEqual(['users'])
+  })
+
+  it('should give queries differing only in literals the same hash', () => {
+    const first = analyzeSql("SELECT * FROM users WHERE name = 'alice'")
+    const second = analyzeSql("SELECT  *  FROM users WHERE name = 'bob'")
+    const other = analyzeSql("SELECT * FROM orders WHERE name = 'bob'")
+
+    expect(first.hash).toBe(second.hash)
+    expect(first.hash).not.toBe(other.hash)
+    expect(first.hash).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('should collapse IN lists and repeated VALUES rows', () => {
+    expect(
+      analyzeSql('SELECT id FROM t WHERE id IN (1, 2, 3)').normalized
+    ).toBe('SELECT id FROM t WHERE id IN (?)')
+    expect(
+      analyzeSql("INSERT INTO t (a, b) VALUES (1, 'x'), (2, 'y')").normalized
+    ).toBe('INSERT INTO t (a, b) VALUES (?, ?)')
+  })
+
+  it('should keep quoted identifiers and skip comments', () => {
+    const analysis = analyzeSql(
+      'SELECT "name" FROM "public"."users" -- users by id\nWHERE id = 1'
+    )
+
+    expect(analysis.normalized).toBe(
+      'SELECT "name" FROM "public"."users" WHERE id = ?'
+    )
+    expect(analysis.tables).toEqual(['public.users'])
+  })
+
+  it('should extract every table of joins and subqueries', () => {
+    const analysis = analyzeSql(
+      `SELECT o.id FROM orders o
+       JOIN users AS u ON u.id = o.user_id
+       LEFT JOIN (SELECT * FROM payments) p ON p.order_id = o.id`
+    )
+
+    expect(analysis.tables).toEqual(['orders', 'users', 'payments'])
+  })
+
+  it('should use the statement after CTEs and leave CTE names out', () => {
+    const analysis = analyzeSql(
+      `WITH recent AS (SELECT * FROM orders WHERE created_at > now())
+       DELETE FROM archive WHERE id IN (SELECT id FROM recent)`
+    )
+
+    expect(analysis.queryType).toBe('DELETE')
+    expect(analysis.tables).toEqual(['orders', 'archive'])
+  })
+
+  it('should not mistake FROM and UPDATE clauses for tables', () => {
+    expect(
+      analyzeSql('SELECT EXTRACT(YEAR FROM created_at) FROM events FOR UPDATE')
+        .tables
+    ).toEqual(['events'])
+    expect(
+      analyzeSql(
+        'INSERT INTO counters (id) VALUES (1) ON DUPLICATE KEY UPDATE n = n + 1'
+      ).tables
+    ).toEqual(['counters'])
+  })
+
+  it('should leave the type out for statements the server does not accept', () => {
+    const analysis = analyzeSql('BEGIN')
+
+    expect(analysis.queryType).toBeUndefined()
+    expect(analysis.tables).toEqual([])
+  })
+})
@@ -0,0 +1,302 @@
+import { createHash } from 'crypto'
+import { isValidDbQueryType } from './validator.js'
+
+// ====== SQL ANALYSIS ======
+
+export type SqlAnalysis = {
+  queryType?: string // Only types accepted by isValidDbQueryType
+  tables: string[] // In order of appearance, CTE names excluded
+  normalized: string // Literals replaced by '?', whitespace collapsed
+  hash: string // Of the normalized statement, for grouping
+}
+
+type TokenType =
+  | 'word'
+  | 'identifier' // Quoted: "name", `name` or [name]
+  | 'string'
+  | 'number'
+  | 'placeholder'
+  | 'punctuation'
+
+type Token = {
+  type: TokenType
+  text: string // As written, quotes included
+  value: string // Identifier without quotes
+  keyword: string // Upper case text of words, empty otherwise
+  spaced: boolean // Preceded by whitespace or a comment
+}
+
+// Longer inputs are analyzed by their prefix, the server truncates at 8192 anyway
+const MAX_ANALYZED_LENGTH = 100000
+
+const KEYWORDS = new Set(
+  `ALL ALTER AND ANY AS ASC BEGIN BETWEEN BY CALL CASE CAST COMMIT CREATE CROSS
+  DEFAULT DELETE DESC DISTINCT DO DROP ELSE END EXCEPT EXISTS EXPLAIN FALSE
+  FETCH FOR FROM FULL GROUP HAVING IF IGNORE ILIKE IN INNER INSERT INTERSECT
+  INTO IS JOIN LATERAL LEFT LIKE LIMIT MATERIALIZED NATURAL NOT NULL OFFSET ON
+  ONLY OR ORDER OUTER OVER PARTITION RECURSIVE REPLACE RETURNING RIGHT ROLLBACK
+  SELECT SET TABLE THEN TO TRUE TRUNCATE UNION UPDATE USING VALUES WHEN WHERE
+  WINDOW WITH`.split(/\s+/)
+)
+
+// Keywords after which a table name follows
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'TABLE'])
+
+// Functions using FROM inside their parentheses, e.g. EXTRACT(YEAR FROM ts)
+const FROM_FUNCTIONS = new Set([
+  'EXTRACT',
+  'SUBSTRING',
+  'TRIM',
+  'OVERLAY',
+  'POSITION',
+])
+
+const OPERATORS = ['->>', '->', '::', '<=', '>=', '<>', '!=', '||']
+
+const STRING_PREFIX_REGEX = /^[EeNnBbXx]$/
+const NUMBER_REGEX = /^(?:0x[0-9a-f]+|\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+)/i
+const WORD_REGEX = /^[A-Za-z_][\w$]*/
+const DOLLAR_TAG_REGEX = /^\$(?:[A-Za-z_]\w*)?\$/
+const BRACKET_IDENTIFIER_REGEX = /^\[[A-Za-z_][^\]]*\]/
+
+// Index right after a quoted section starting at `start`; doubled quotes and
+// backslashes escape. Unterminated quotes run to the end of the input.
+const skipQuoted = (sql: string, start: number, quote: string): number => {
+  let i = start + 1
+  while (i < sql.length) {
+    if (sql[i] === '\\' && quote === "'") {
+      i += 2
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1
+      i += 2
+    } else {
+      i += 1
+    }
+  }
+  return sql.length
+}
+
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = []
+  let spaced = false
+  let i = 0
+
+  const push = (type: TokenType, end: number, value?: string): void => {
+    const text = sql.substring(i, end)
+    const keyword = type === 'word' ? text.toUpperCase() : ''
+    tokens.push({ type, text, value: value ?? text, keyword, spaced })
+    spaced = false
+    i = end
+  }
+
+  while (i < sql.length) {
+    const char = sql[i]
+    const rest = sql.substring(i, i + 3)
+
+    if (/\s/.test(char)) {
+      spaced = true
+      i += 1
+    } else if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i)
+      spaced = true
+      i = end === -1 ? sql.length : end
+    } else if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2)
+      spaced = true
+      i = end === -1 ? sql.length : end + 2
+    } else if (char === "'") {
+      push('string', skipQuoted(sql, i, "'"))
+    } else if (char === '"' || char === '`') {
+      const end = skipQuoted(sql, i, char)
+      push('identifier', end, sql.substring(i + 1, end - 1))
+    } else if (
+      char === '[' &&
+      BRACKET_IDENTIFIER_REGEX.test(sql.substring(i))
+    ) {
+      const end =
+        i + (BRACKET_IDENTIFIER_REGEX.exec(sql.substring(i)) ?? [''])[0].length
+      push('identifier', end, sql.substring(i + 1, end - 1))
+    } else if (char === '$' && /\d/.test(sql[i + 1] ?? '')) {
+      push(
+        'placeholder',
+        i + 1 + (/^\d+/.exec(sql.substring(i + 1)) ?? [''])[0].length
+      )
+    } else if (char === '$' && DOLLAR_TAG_REGEX.test(sql.substring(i))) {
+      // Postgres dollar quoting: $$...$$ or $tag$...$tag$
+      const tag = (DOLLAR_TAG_REGEX.exec(sql.substring(i)) ?? [''])[0]
+      const end = sql.indexOf(tag, i + tag.length)
+      push('string', end === -1 ? sql.length : end + tag.length)
+    } else if (char === '?') {
+      push('placeholder', i + 1)
+    } else if (
+      (char === ':' || char === '@') &&
+      WORD_REGEX.test(sql.substring(i + 1))
+    ) {
+      // :name and @name parameters; the :: cast operator never gets here
+      push(
+        'placeholder',
+        i + 1 + (WORD_REGEX.exec(sql.substring(i + 1)) ?? [''])[0].length
+      )
+    } else if (NUMBER_REGEX.test(sql.substring(i)) && /[\d.]/.test(char)) {
+      push(
+        'number',
+        i + (NUMBER_REGEX.exec(sql.substring(i)) ?? [''])[0].length
+      )
+    } else if (WORD_REGEX.test(sql.substring(i))) {
+      const word = (WORD_REGEX.exec(sql.substring(i)) ?? [''])[0]
+      // E'...', N'...', X'...' and B'...' are prefixed string literals
+      if (STRING_PREFIX_REGEX.test(word) && sql[i + 1] === "'") {
+        push('string', skipQuoted(sql, i + 1, "'"))
+      } else {
+        push('word', i + word.length)
+      }
+    } else {
+      const operator = OPERATORS.find((candidate) =>
+        sql.startsWith(candidate, i)
+      )
+      push('punctuation', i + (operator?.length ?? 1))
+    }
+  }
+  return tokens
+}
+
+const renderToken = (token: Token): string => {
+  switch (token.type) {
+    case 'string':
+    case 'number':
+    case 'placeholder':
+      return '?'
+    case 'word':
+      return KEYWORDS.has(token.keyword) ? token.keyword : token.text
+    default:
+      return token.text
+  }
+}
+
+const normalize = (tokens: Token[]): string =>
+  tokens
+    .map((token, index) =>
+      index > 0 && token.spaced ? ` ${renderToken(token)}` : renderToken(token)
+    )
+    .join('')
+    // IN lists and multi-row VALUES vary in length but not in meaning
+    .replace(/\bIN \(\?(?:, ?\?)+\)/g, 'IN (?)')
+    .replace(/(\((?:\?, ?)*\?\))(?:, ?\1)+/g, '$1')
+
+const isName = (token: Token | undefined): boolean =>
+  !!token &&
+  (token.type === 'identifier' ||
+    (token.type === 'word' && !KEYWORDS.has(token.keyword)))
+
+// Index right after the parenthesis that closes the one at `start`
+const skipParentheses = (tokens: Token[], start: number): number => {
+  let depth = 0
+  for (let i = start; i < tokens.length; i++) {
+    if (tokens[i].text === '(') depth += 1
+    if (tokens[i].text === ')') depth -= 1
+    if (depth === 0) return i + 1
+  }
+  return tokens.length
+}
+
+// WITH a AS (...), b (x, y) AS MATERIALIZED (...) SELECT ... : returns the
+// CTE names and the index of the main statement keyword
+const skipCtes = (tokens: Token[]): { names: Set<string>; start: number } => {
+  const names = new Set<string>()
+  if (tokens[0]?.keyword !== 'WITH') return { names, start: 0 }
+
+  let i = tokens[1]?.keyword === 'RECURSIVE' ? 2 : 1
+  while (isName(tokens[i])) {
+    names.add(tokens[i].value)
+    i += 1
+    if (tokens[i]?.text === '(') i = skipParentheses(tokens, i)
+    if (tokens[i]?.keyword !== 'AS') break
+    i += 1
+    if (tokens[i]?.keyword === 'NOT') i += 1
+    if (tokens[i]?.keyword === 'MATERIALIZED') i += 1
+    if (tokens[i]?.text !== '(') break
+    i = skipParentheses(tokens, i)
+    if (tokens[i]?.text !== ',') break
+    i += 1
+  }
+  return { names, start: i }
+}
+
+const readTables = (tokens: Token[], cteNames: Set<string>): string[] => {
+  const tables: string[] = []
+  const callStack: boolean[] = [] // True for parentheses of FROM_FUNCTIONS
+
+  const readName = (start: number): { name?: string; end: number } => {
+    let i = start
+    // Modifiers between the keyword and the table name
+    while (
+      ['ONLY', 'IF', 'NOT', 'EXISTS', 'IGNORE'].includes(tokens[i]?.keyword)
+    ) {
+      i += 1
+    }
+    if (!isName(tokens[i])) return { end: i }
+    const parts = [tokens[i].value]
+    i += 1
+    while (tokens[i]?.text === '.' && isName(tokens[i + 1])) {
+      parts.push(tokens[i + 1].value)
+      i += 2
+    }
+    return { name: parts.join('.'), end: i }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.text === '(') {
+      callStack.push(FROM_FUNCTIONS.has(tokens[i - 1]?.keyword ?? ''))
+      continue
+    }
+    if (token.text === ')') {
+      callStack.pop()
+      continue
+    }
+    // UPDATE names a table only as a statement, not in FOR UPDATE or
+    // ON DUPLICATE KEY UPDATE
+    const isStatementStart = i === 0 || [')', ';'].includes(tokens[i - 1].text)
+    const isTableKeyword =
+      token.type === 'word' &&
+      ((TABLE_KEYWORDS.has(token.keyword) &&
+        (token.keyword !== 'UPDATE' || isStatementStart)) ||
+        (token.keyword === 'TRUNCATE' && tokens[i + 1]?.keyword !== 'TABLE'))
+    if (!isTableKeyword || callStack[callStack.length - 1]) continue
+
+    let next = i + 1
+    // FROM a, b and UPDATE a, b list several tables
+    for (;;) {
+      const { name, end } = readName(next)
+      if (!name) break
+      if (!cteNames.has(name) && !tables.includes(name)) tables.push(name)
+      next = end
+      if (tokens[next]?.keyword === 'AS') next += 1
+      if (isName(tokens[next])) next += 1
+      if (
+        tokens[next]?.text !== ',' ||
+        !['FROM', 'UPDATE'].includes(token.keyword)
+      ) {
+        break
+      }
+      next += 1
+    }
+  }
+  return tables
+}
+
+// Infers what logDbOperation callers used to pass by hand and strips
+// literals, so queries group together and customer data stays out of Beacon
+export const analyzeSql = (sql: string): SqlAnalysis => {
+  const tokens = tokenize(sql.substring(0, MAX_ANALYZED_LENGTH))
+  const { names, start } = skipCtes(tokens)
+  const keyword = tokens[start]?.keyword ?? ''
+  const normalized = normalize(tokens)
+
+  return {
+    queryType: keyword && isValidDbQueryType(keyword) ? keyword : undefined,
+    tables: readTables(tokens, names),
+    normalized,
+    hash: createHash('sha1').update(normalized).digest('hex').substring(0, 16),
+  }
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs'
+import { PassThrough } from 'stream'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+// Mock debug logging - must be hoisted
+vi.mock('./debug.js', () => ({
+  debugLogging: false,
+}))
+
+import {
+  createFanoutTransport,
+  createFileTransport,
+  createMemoryTransport,
+  createStdoutTransport,
+  createTransport,
+  deliveryError,
+} from './transports.js'
+import { configWith, event } from '../test/fixtures.js'
+
+describe('Transports', () => {
+  it('should write NDJSON to the given stream', async () => {
+    const stream = new PassThrough()
+    const chunks: string[] = []
+    stream.on('data', (chunk) => chunks.push(chunk.toString()))
+
+    await createStdoutTransport(stream).send([event('a'), event('b')])
+
+    expect(chunks.join('')).toBe(
+      JSON.stringify(event('a')) + '\n' + JSON.stringify(event('b')) + '\n'
+    )
+  })
+
+  it('should collect events in memory', async () => {
+    const transport = createMemoryTransport()
+
+    await transport.send([event('a')])
+    await transport.send([event('b')])
+    expect(transport.events.map((e) => e.message)).toEqual(['a', 'b'])
+
+    transport.clear()
+    expect(transport.events).toEqual([])
+  })
+
+  it('should fan out to every transport and count failures per transport', async () => {
+    const first = createMemoryTransport()
+    const second = createMemoryTransport()
+    const broken = {
+      name: 'broken',
+      send: vi.fn().mockRejectedValue(deliveryError('send_failed', 'nope')),
+    }
+    const fanout = createFanoutTransport([first, broken, second])
+
+    await fanout.send([event('a')])
+    await fanout.send([event('b')])
+    expect(first.events).toHaveLength(2)
+    expect(second.events).toHaveLength(2)
+    expect(fanout.failures?.()).toEqual({ broken: 2 })
+    expect(fanout.name).toBe('memory+broken+memory')
+  })
+
+  it('should treat a synchronous throw as that transport failing', async () => {
+    const memory = createMemoryTransport()
+    const throwing = {
+      name: 'throwing',
+      send: () => {
+        throw new Error('not a promise')
+      },
+    }
+    const fanout = createFanoutTransport([throwing, memory])
+
+    await fanout.send([event('a')])
+    expect(memory.events).toHaveLength(1)
+    expect(fanout.failures?.()).toEqual({ throwing: 1 })
+  })
+
+  it('should fail the batch only when every transport failed', async () => {
+    const broken = (name: string) => ({
+      name,
+      send: vi.fn().mockRejectedValue(deliveryError('send_failed', 'nope')),
+    })
+    const fanout = createFanoutTransport([broken('a'), broken('b')])
+
+    await expect(fanout.send([event('a')])).rejects.toMatchObject({
+      reason: 'send_failed',
+    })
+    expect(fanout.failures?.()).toEqual({ a: 1, b: 1 })
+  })
+
+  it('should drop batches the server rejects instead of spooling them', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response('bad event', { status: 400 }))
+    )
+    const dir = mkdtempSync(join(tmpdir(), 'beacon-rejected-'))
+    try {
+      const transport = createTransport(
+        configWith({
+          sendEnabled: true,
+          transport: 'http',
+          baseUrl: 'http://rejected.test',
+          spoolDir: dir,
+        })
+      )
+
+      await expect(transport.send([event('a')])).rejects.toMatchObject({
+        reason: 'rejected',
+      })
+      await transport.close?.()
+      // Let the spool finish creating its directory before looking inside
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      expect(existsSync(join(dir, 'beacon-spool.ndjson'))).toBe(false)
+    } finally {
+      vi.unstubAllGlobals()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should pass custom transports through and combine several', () => {
+    const custom = createMemoryTransport()
+
+    expect(createTransport(configWith({ transport: custom }))).toBe(custom)
+    expect(
+      createTransport(configWith({ transport: ['stdout', custom] })).name
+    ).toBe('stdout+memory')
+  })
+
+  describe('File Transport', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'beacon-file-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should append events and rotate past logFileMaxBytes', async () => {
+      const path = join(dir, 'logs', 'beacon.ndjson')
+      const line = JSON.stringify(event('x')) + '\n'
+      const transport = createFileTransport(
+        configWith({
+          logFilePath: path,
+          logFileMaxBytes: line.length * 2,
+          logFileMaxFiles: 1,
+        })
+      )
+
+      await transport.send([event('x'), event('x')])
+      await transport.send([event('y')])
+      await transport.send([event('x'), event('x')])
+      await transport.send([event('z')])
+      await transport.close?.()
+
+      expect(readFileSync(path, 'utf8')).toBe(JSON.stringify(event('z')) + '\n')
+      expect(readFileSync(`${path}.1`, 'utf8')).toBe(line + line)
+      expect(existsSync(`${path}.2`)).toBe(false)
+    })
+  })
+})
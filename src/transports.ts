@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs'
+import { dirname } from 'path'
+import { LogEvent, deliverBatchLogs, getCircuitBreaker } from './beacon.js'
+import type { CircuitBreaker } from './circuit-breaker.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from './config.js'
+import { debugLogging } from './debug.js'
+import type { DropReason } from './queue.js'
+import { createSpool } from './spool.js'
+
+// ====== TRANSPORTS ======
+
+export type Transport = {
+  name: string
+  // Rejects when the batch is lost; a DeliveryError tells the exporter why
+  send: (logEvents: LogEvent[]) => Promise<void>
+  close?: () => Promise<void>
+  // Batches lost per member transport name, reported by fanouts
+  failures?: () => Record<string, number>
+}
+
+export type TransportName = 'http' | 'stdout' | 'file' | 'memory'
+
+export type MemoryTransport = Transport & {
+  events: LogEvent[]
+  clear: () => void
+}
+
+export type DeliveryError = Error & { reason: DropReason }
+
+export const deliveryError = (
+  reason: DropReason,
+  message: string
+): DeliveryError => Object.assign(new Error(message), { reason })
+
+const toNdjson = (logEvents: LogEvent[]): string =>
+  logEvents.map((logEvent) => JSON.stringify(logEvent) + '\n').join('')
+
+// Ships batches to the Beacon server. Batches that fail after all retries are
+// written to the disk spool when spoolDir is configured, so durability stays a
+// concern of the one transport that talks to the network. Batches the server
+// rejects are never spooled, they would be rejected again on replay.
+export const createHttpTransport = (
+  config: BeaconConfig = DEFAULT_CONFIG,
+  breaker: CircuitBreaker = getCircuitBreaker(config)
+): Transport => {
+  // A rejected spool chunk counts as done so it cannot block the replay
+  const spool = config.spoolDir
+    ? createSpool(
+        config,
+        async (logEvents) =>
+          (await deliverBatchLogs(logEvents, config, breaker)) !== 'failed'
+      )
+    : undefined
+
+  const send = async (logEvents: LogEvent[]): Promise<void> => {
+    const result = await deliverBatchLogs(logEvents, config, breaker)
+    if (result === 'sent') {
+      return
+    }
+    if (result === 'rejected') {
+      throw deliveryError('rejected', 'Beacon server rejected the batch')
+    }
+    if (!spool) {
+      throw breaker.state() === 'open'
+        ? deliveryError('circuit_open', 'Beacon circuit breaker is open')
+        : deliveryError('send_failed', 'Beacon batch delivery failed')
+    }
+    const spooled = await spool.append(logEvents).catch((error) => {
+      console.error('Failed to spool Beacon batch:', error)
+      return false
+    })
+    if (!spooled) {
+      throw deliveryError('spool_full', 'Beacon spool is full')
+    }
+  }
+
+  return {
+    name: 'http',
+    send,
+    close: async () => spool?.close(),
+  }
+}
+
+// Writes one JSON event per line, for log shippers that tail stdout
+export const createStdoutTransport = (
+  stream: NodeJS.WritableStream = process.stdout
+): Transport => ({
+  name: 'stdout',
+  send: (logEvents) =>
+    new Promise<void>((resolve, reject) => {
+      stream.write(toNdjson(logEvents), (error) =>
+        error ? reject(error) : resolve()
+      )
+    }),
+})
+
+// Appends NDJSON to logFilePath. When the file would grow past logFileMaxBytes
+// it is rotated to .1, .2, ... and only logFileMaxFiles rotated files are kept.
+export const createFileTransport = (
+  config: BeaconConfig = DEFAULT_CONFIG
+): Transport => {
+  const path = config.logFilePath
+  let size: number | undefined
+  let writing: Promise<unknown> = fs
+    .mkdir(dirname(path), { recursive: true })
+    .catch((error) => {
+      console.error('Failed to create Beacon log file directory:', error)
+    })
+
+  const rotate = async (): Promise<void> => {
+    for (let i = config.logFileMaxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {})
+    }
+    await fs.rm(`${path}.${config.logFileMaxFiles}`, { force: true })
+    if (config.logFileMaxFiles > 0) {
+      await fs.rename(path, `${path}.1`).catch(() => {})
+    } else {
+      await fs.rm(path, { force: true })
+    }
+    size = 0
+    if (debugLogging) {
+      console.log(`📝 Rotated Beacon log file ${path}`)
+    }
+  }
+
+  const write = async (logEvents: LogEvent[]): Promise<void> => {
+    const data = toNdjson(logEvents)
+    const bytes = Buffer.byteLength(data)
+    if (size === undefined) {
+      size = await fs
+        .stat(path)
+        .then((stats) => stats.size)
+        .catch(() => 0)
+    }
+    if (size > 0 && size + bytes > config.logFileMaxBytes) {
+      await rotate()
+    }
+    await fs.appendFile(path, data)
+    size += bytes
+  }
+
+  return {
+    name: 'file',
+    // Writes run one at a time so rotation never races an append
+    send: (logEvents) => {
+      const result = writing.then(() => write(logEvents))
+      writing = result.catch(() => undefined)
+      return result
+    },
+    close: async () => {
+      await writing
+    },
+  }
+}
+
+// Keeps every event in memory, for tests and local inspection
+export const createMemoryTransport = (): MemoryTransport => {
+  const transport: MemoryTransport = {
+    name: 'memory',
+    events: [],
+    send: async (logEvents) => {
+      transport.events.push(...logEvents)
+    },
+    clear: () => {
+      transport.events.length = 0
+    },
+  }
+  return transport
+}
+
+// Sends every batch to all transports at once. Each transport handles its own
+// failures, so a broken one never causes duplicates on the others. The batch
+// only counts as lost when every transport failed; partial failures are
+// counted per transport name instead.
+export const createFanoutTransport = (transports: Transport[]): Transport => {
+  const failures: Record<string, number> = {}
+
+  const send = async (logEvents: LogEvent[]): Promise<void> => {
+    const results = await Promise.allSettled(
+      transports.map((transport) =>
+        Promise.resolve().then(() => transport.send(logEvents))
+      )
+    )
+    const rejected: PromiseRejectedResult[] = []
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') return
+      const { name } = transports[index]
+      failures[name] = (failures[name] ?? 0) + 1
+      rejected.push(result)
+      if (debugLogging) {
+        console.log(`❌ ${name} transport lost a batch:`, result.reason)
+      }
+    })
+    if (rejected.length > 0 && rejected.length === transports.length) {
+      throw rejected[0].reason
+    }
+  }
+
+  return {
+    name: transports.map((transport) => transport.name).join('+'),
+    send,
+    close: async () => {
+      await Promise.all(transports.map((transport) => transport.close?.()))
+    },
+    failures: () => ({ ...failures }),
+  }
+}
+
+const createNamedTransport = (
+  name: TransportName,
+  config: BeaconConfig,
+  breaker: CircuitBreaker | undefined
+): Transport => {
+  switch (name) {
+    case 'http':
+      return createHttpTransport(config, breaker)
+    case 'stdout':
+      return createStdoutTransport()
+    case 'file':
+      return createFileTransport(config)
+    case 'memory':
+      return createMemoryTransport()
+  }
+}
+
+// Builds the transport selected by config.transport (or BEACON_TRANSPORT).
+// The http transport uses the given breaker, or the shared one of baseUrl.
+export const createTransport = (
+  config: BeaconConfig = DEFAULT_CONFIG,
+  breaker?: CircuitBreaker
+): Transport => {
+  const selected = Array.isArray(config.transport)
+    ? config.transport
+    : [config.transport]
+  const transports = selected.map((transport) =>
+    typeof transport === 'string'
+      ? createNamedTransport(transport, config, breaker)
+      : transport
+  )
+  return transports.length === 1
+    ? transports[0]
+    : createFanoutTransport(transports)
+}
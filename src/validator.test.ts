@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { repairLogEvent, validateLogEvent } from './validator.js'
+import { LogEvent } from './beacon.js'
+
+describe('repairLogEvent', () => {
+  it('should leave valid events untouched', () => {
+    const event: LogEvent = {
+      event_type: 'http',
+      message: 'GET /api/users - HTTP request started',
+      trace_info: { http_path: '/api/users', http_remote_ip: '10.0.0.1' },
+    }
+
+    const { event: repaired, repairs } = repairLogEvent(event)
+
+    expect(repaired).toBe(event)
+    expect(repairs).toEqual([])
+  })
+
+  it('should truncate oversized queries and paths', () => {
+    const event: LogEvent = {
+      event_type: 'db',
+      message: 'Database query completed',
+      trace_info: {
+        db_query: 'SELECT ' + 'x'.repeat(9000),
+        http_path: '/' + 'a'.repeat(3000),
+      },
+      db_info: { db_query: 'SELECT ' + 'x'.repeat(9000) },
+    }
+
+    const { event: repaired, repairs } = repairLogEvent(event)
+
+    expect(repaired.trace_info?.db_query).toHaveLength(8192)
+    expect(repaired.trace_info?.db_query?.endsWith('...')).toBe(true)
+    expect(repaired.trace_info?.http_path).toHaveLength(2048)
+    expect(repaired.db_info?.db_query).toHaveLength(8192)
+    expect(repairs).toHaveLength(3)
+    expect(validateLogEvent(repaired).isValid).toBe(true)
+    expect(event.trace_info?.db_query).toHaveLength(9007) // Input not mutated
+  })
+
+  it('should drop invalid IPs and normalize query types', () => {
+    const event: LogEvent = {
+      event_type: 'db',
+      message: 'Database query completed',
+      trace_info: {
+        http_remote_ip: '::ffff:not-an-ip',
+        db_query_type: ' select ',
+      },
+      db_info: { db_query_type: 'MERGE' },
+    }
+
+    const { event: repaired } = repairLogEvent(event)
+
+    expect(repaired.trace_info?.http_remote_ip).toBeUndefined()
+    expect(repaired.trace_info?.db_query_type).toBe('SELECT')
+    expect(repaired.db_info?.db_query_type).toBeUndefined()
+  })
+})
@@ -1,6 +1,6 @@
 // ====== VALIDATION FUNCTIONS (Pure Functions) ======
 
-import { LogEvent, TraceInfo } from './beacon.js'
+import { DbInfo, LogEvent, TraceInfo } from './beacon.js'
 
 // IP Address Validation - Critical for server acceptance
 export const isValidIP = (ip: string): boolean => {
@@ -20,14 +20,25 @@ export const isValidHttpStatus = (status: number): boolean => {
   return Number.isInteger(status) && status >= 100 && status <= 599
 }
 
+const MAX_PATH_LENGTH = 2048
+const MAX_DB_QUERY_LENGTH = 8192
+
 // Path Length Validation - Server enforces ≤2048 chars
 export const isValidPath = (path: string): boolean => {
-  return typeof path === 'string' && path.length > 0 && path.length <= 2048
+  return (
+    typeof path === 'string' &&
+    path.length > 0 &&
+    path.length <= MAX_PATH_LENGTH
+  )
 }
 
 // Database Query Validation - Prevent oversized queries
 export const isValidDbQuery = (query: string): boolean => {
-  return typeof query === 'string' && query.length > 0 && query.length <= 8192
+  return (
+    typeof query === 'string' &&
+    query.length > 0 &&
+    query.length <= MAX_DB_QUERY_LENGTH
+  )
 }
 
 // Database Query Type Validation
@@ -54,8 +65,15 @@ export const validateLogEvent = (
   const errors: string[] = []
 
   // Required fields
-  if (!event.event_type || !['log', 'http', 'db'].includes(event.event_type)) {
-    errors.push('event_type must be one of: log, http, db')
+  if (
+    !event.event_type ||
+    !['log', 'http', 'db', 'span', 'metric'].includes(event.event_type)
+  ) {
+    errors.push('event_type must be one of: log, http, db, span, metric')
+  }
+
+  if (event.event_type === 'metric' && !event.metric_info?.metric_name) {
+    errors.push('metric events require metric_info.metric_name')
   }
 
   if (!event.message || typeof event.message !== 'string') {
@@ -161,3 +179,69 @@ export const validateLogEvent = (
     errors,
   }
 }
+
+// ====== AUTO-REPAIR (Pure Functions) ======
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? value.substring(0, maxLength - 3) + '...' : value
+
+// Fixes the problems that can be fixed without losing the event.
+// Returns the repaired copy and a description of every change made.
+export const repairLogEvent = (
+  event: LogEvent
+): { event: LogEvent; repairs: string[] } => {
+  const repairs: string[] = []
+
+  const repairDbFields = <T extends TraceInfo | DbInfo>(info: T): T => {
+    const repaired = { ...info }
+    if (
+      typeof repaired.db_query === 'string' &&
+      !isValidDbQuery(repaired.db_query)
+    ) {
+      repaired.db_query =
+        repaired.db_query.length > 0
+          ? truncate(repaired.db_query, MAX_DB_QUERY_LENGTH)
+          : undefined
+      repairs.push('db_query truncated or removed')
+    }
+    if (typeof repaired.db_query_type === 'string') {
+      const normalized = repaired.db_query_type.trim().toUpperCase()
+      const queryType = isValidDbQueryType(normalized) ? normalized : undefined
+      if (queryType !== repaired.db_query_type) {
+        repaired.db_query_type = queryType
+        repairs.push(
+          queryType
+            ? 'db_query_type normalized'
+            : `db_query_type removed: ${info.db_query_type}`
+        )
+      }
+    }
+    return repaired
+  }
+
+  let trace_info = event.trace_info
+  if (trace_info) {
+    trace_info = repairDbFields(trace_info)
+    if (
+      typeof trace_info.http_path === 'string' &&
+      !isValidPath(trace_info.http_path)
+    ) {
+      trace_info.http_path =
+        trace_info.http_path.length > 0
+          ? truncate(trace_info.http_path, MAX_PATH_LENGTH)
+          : undefined
+      repairs.push('http_path truncated or removed')
+    }
+    if (trace_info.http_remote_ip && !isValidIP(trace_info.http_remote_ip)) {
+      repairs.push(`http_remote_ip removed: ${trace_info.http_remote_ip}`)
+      trace_info.http_remote_ip = undefined
+    }
+  }
+
+  const db_info = event.db_info ? repairDbFields(event.db_info) : undefined
+
+  if (repairs.length === 0) {
+    return { event, repairs }
+  }
+  return { event: { ...event, trace_info, db_info }, repairs }
+}
@@ -0,0 +1,22 @@
+import { LogEvent } from '../src/beacon.js'
+import { DEFAULT_CONFIG, type BeaconConfig } from '../src/config.js'
+
+// ====== TEST FIXTURES ======
+
+// A valid info log; trace, severity or any other field come from overrides
+export const event = (
+  message = 'test',
+  overrides: Partial<LogEvent> = {}
+): LogEvent => ({
+  event_type: 'log',
+  severity: 'info',
+  message,
+  ...overrides,
+})
+
+export const configWith = (
+  overrides: Partial<BeaconConfig> = {}
+): BeaconConfig => ({
+  ...DEFAULT_CONFIG,
+  ...overrides,
+})